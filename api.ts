@@ -0,0 +1,541 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+export interface MuseInfo {
+	name: string;
+	trigger: string;
+	tags: string;
+	owner_id: number;
+	is_shared: boolean;
+	muse_id?: string | null; // Optional: for API calls (alias-safe); display always uses name
+	avatar_url?: string | null;
+}
+
+export interface AuthMeResponse {
+	user_id?: string | number;
+}
+
+interface MusesListResponse {
+	muses?: MuseInfo[];
+}
+
+export interface SceneState {
+	replied?: boolean | string | null;
+	is_from_character?: boolean | string | null;
+	timestamp?: string | null;
+	your_last_post?: string | null;
+	posted_since_count?: number | null;
+}
+
+export interface SceneQueryResponse {
+	tracked?: boolean;
+	state?: SceneState | null;
+}
+
+export interface TrackedThread {
+	thread_id: string | number;
+	muse_name?: string;
+	muse_names?: string[];
+	participants?: number | string;
+	scene_path?: string;
+	scene_paths?: string[];
+	guild_id?: string | number | null;
+	thread_name?: string;
+}
+
+/** Names behind a Discord thread/channel id, as the bot sees them. */
+export interface ThreadMetadata {
+	thread_id: string | number;
+	thread_name?: string | null;
+	parent_id?: string | number | null; // Channel the thread lives in (null for plain channels)
+	parent_name?: string | null;
+	guild_id?: string | number | null;
+	guild_name?: string | null;
+}
+
+interface TrackedThreadsResponse {
+	threads?: TrackedThread[];
+}
+
+export interface GuildMember {
+	id: string;
+	username: string;
+	display_name: string;
+	avatar_url?: string | null;
+}
+
+interface GuildMembersResponse {
+	members?: GuildMember[];
+}
+
+export interface ThreadMessage {
+	id: string | number;
+	author_id?: string | number | null;
+	author_name?: string | null;
+	muse_name?: string | null; // Set when the message was posted as a muse (webhook)
+	content?: string | null;
+	timestamp?: string | null;
+}
+
+interface ThreadMessagesResponse {
+	messages?: ThreadMessage[];
+	has_more?: boolean;
+}
+
+interface ApiErrorBody {
+	message?: string;
+	error?: string;
+}
+
+export interface MuseWrappersResolveResponse {
+	header?: string;
+	footer?: string;
+	muse_id?: string | null;
+}
+
+export interface RegisterSceneRequest {
+	thread_id: string;
+	user_id: string;
+	scene_path: string;
+	characters: string[];
+	participants: number;
+	is_active: boolean;
+	guild_id?: string;
+}
+
+export interface TrackThreadRequest {
+	thread_id: string;
+	user_id: string;
+	muse_name: string;
+	participants: number;
+	guild_id?: string;
+}
+
+export interface UpdateSceneActiveRequest {
+	scene_path: string;
+	user_id: string;
+	is_active: boolean;
+	thread_id?: string;
+}
+
+export interface UpdateSceneParticipantsRequest {
+	scene_path: string;
+	user_id: string;
+	participants: number;
+	thread_id: string;
+}
+
+export interface PostMessageRequest {
+	thread_id: string;
+	muse_name: string;
+	content: string;
+	user_id: string;
+	muse_id?: string | null;
+	wrappers_preapplied?: boolean;
+}
+
+export interface PostMessageResult {
+	/** 200 when the bot posted synchronously, 202 when it queued the post. */
+	status: number;
+	/** Id of the (first) Discord message posted, when the bot reports it. */
+	messageId: string | null;
+}
+
+interface PostMessageResponse {
+	message_id?: string | number | null;
+	message_ids?: (string | number)[];
+}
+
+/** How a request failed: an HTTP status, no response in time, no response at all, or an unreadable body. */
+export type ApiErrorKind = 'http' | 'timeout' | 'network' | 'invalid_response';
+
+/** A failed MultiMuse API call, after retries. `status` is 0 when no HTTP response was received. */
+export class ApiError extends Error {
+	readonly kind: ApiErrorKind;
+	readonly status: number;
+	readonly method: string;
+	readonly path: string;
+	/** Raw response body, when there was one. */
+	readonly body: string;
+	/** Server-provided wait before retrying (429/503), in milliseconds. */
+	readonly retryAfterMs: number | null;
+
+	constructor(params: {
+		kind: ApiErrorKind;
+		message: string;
+		method: string;
+		path: string;
+		status?: number;
+		body?: string;
+		retryAfterMs?: number | null;
+	}) {
+		super(params.message);
+		this.name = 'ApiError';
+		this.kind = params.kind;
+		this.status = params.status ?? 0;
+		this.method = params.method;
+		this.path = params.path;
+		this.body = params.body ?? '';
+		this.retryAfterMs = params.retryAfterMs ?? null;
+	}
+
+	get isAuthError(): boolean {
+		return this.status === 401;
+	}
+
+	get isRateLimited(): boolean {
+		return this.status === 429;
+	}
+
+	/** 5xx, timeouts and network failures; worth trying again later. */
+	get isTransient(): boolean {
+		return this.kind === 'timeout' || this.kind === 'network' || this.status >= 500;
+	}
+}
+
+export function isApiError(error: unknown): error is ApiError {
+	return error instanceof ApiError;
+}
+
+/** Sends one request; swapped out to exercise request shaping without a live bot. */
+export type ApiTransport = (request: RequestUrlParam) => Promise<RequestUrlResponse>;
+
+export interface ApiClientOptions {
+	baseUrl: string;
+	apiKey: string;
+	/** Per-attempt timeout in milliseconds. */
+	timeoutMs?: number;
+	/** Retries after the first attempt for 429, 5xx and network errors. */
+	maxRetries?: number;
+	transport?: ApiTransport;
+}
+
+interface RequestOptions {
+	query?: Record<string, string | number | undefined>;
+	body?: object;
+	headers?: Record<string, string>;
+	/**
+	 * Safe to resend after a 5xx or network failure. Posts are not: the bot may have delivered the
+	 * message before failing. Every request is retried on 429, which means nothing was processed.
+	 */
+	idempotent?: boolean;
+	timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+/** Longer Retry-After waits fail fast instead of stalling the poll queue. */
+const MAX_RETRY_AFTER_MS = 60000;
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
+
+/** Exponential backoff with jitter: a random delay between half and all of base * 2^attempt. */
+function backoffDelay(attempt: number): number {
+	const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+	return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+	if (!headers) return undefined;
+	const wanted = name.toLowerCase();
+	const key = Object.keys(headers).find((k) => k.toLowerCase() === wanted);
+	return key === undefined ? undefined : headers[key];
+}
+
+/** Parse Retry-After (delta seconds or an HTTP date) into milliseconds from now. */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+	if (!value) return null;
+	const trimmed = value.trim();
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return Math.round(parseFloat(trimmed) * 1000);
+	}
+	const date = Date.parse(trimmed);
+	return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function errorBodyMessage(text: string): string | null {
+	try {
+		const data = JSON.parse(text) as ApiErrorBody;
+		return data.message || data.error || null;
+	} catch {
+		return null;
+	}
+}
+
+function describeStatus(status: number, serverMessage: string | null): string {
+	if (status === 401) return 'API authentication failed';
+	if (status === 429) return 'Rate limited by the MultiMuse API';
+	return serverMessage ? `MultiMuse API returned ${status}: ${serverMessage}` : `MultiMuse API returned ${status}`;
+}
+
+/** Typed client for the MultiMuse bot HTTP API, one instance per API key. */
+export class MultimuseApiClient {
+	private readonly baseUrl: string;
+	private readonly apiKey: string;
+	private readonly timeoutMs: number;
+	private readonly maxRetries: number;
+	private readonly transport: ApiTransport;
+
+	constructor(options: ApiClientOptions) {
+		this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+		this.apiKey = options.apiKey.trim();
+		this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+		this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+		this.transport = options.transport ?? requestUrl;
+	}
+
+	getMe(): Promise<AuthMeResponse> {
+		return this.request<AuthMeResponse>('GET', '/api/v1/auth/me');
+	}
+
+	async listMuses(userIds: string[]): Promise<MuseInfo[]> {
+		const data = await this.request<MusesListResponse>('GET', '/api/v1/muses/list', {
+			query: { user_ids: userIds.join(',') },
+		});
+		return data.muses || [];
+	}
+
+	resolveMuseWrappers(params: {
+		threadId: string;
+		userId: string;
+		museId?: string | null;
+		museName?: string;
+	}): Promise<MuseWrappersResolveResponse> {
+		return this.request<MuseWrappersResolveResponse>('GET', '/api/v1/muses/wrappers/resolve', {
+			query: {
+				thread_id: params.threadId,
+				user_id: params.userId,
+				muse_id: params.museId || undefined,
+				muse_name: params.museName || undefined,
+			},
+		});
+	}
+
+	async getTrackedThreads(userId: string): Promise<TrackedThread[]> {
+		const data = await this.request<TrackedThreadsResponse>('GET', '/api/v1/threads/tracked', {
+			query: { user_id: userId },
+		});
+		return data.threads || [];
+	}
+
+	getThreadMetadata(params: { threadId: string; userId: string }): Promise<ThreadMetadata> {
+		return this.request<ThreadMetadata>('GET', `/api/v1/threads/${encodeURIComponent(params.threadId)}`, {
+			query: { user_id: params.userId },
+		});
+	}
+
+	queryScene(params: {
+		threadId: string | number;
+		userId: string;
+		characters: string[];
+		participants: number;
+	}): Promise<SceneQueryResponse> {
+		return this.request<SceneQueryResponse>('GET', '/api/v1/scenes/query', {
+			query: {
+				thread_id: String(params.threadId),
+				characters: params.characters.join(','),
+				user_id: params.userId,
+				participants: params.participants,
+			},
+		});
+	}
+
+	/**
+	 * Messages in a thread, oldest first. With `after` only messages newer than that message id
+	 * are returned; pages of `limit` are fetched until the thread is exhausted or `maxPages` is hit.
+	 */
+	async getThreadMessages(params: {
+		threadId: string;
+		userId: string;
+		after?: string | null;
+		limit?: number;
+		maxPages?: number;
+	}): Promise<ThreadMessage[]> {
+		const limit = params.limit ?? 100;
+		const maxPages = params.maxPages ?? 10;
+		const messages: ThreadMessage[] = [];
+		let after = params.after || undefined;
+		for (let page = 0; page < maxPages; page++) {
+			const data = await this.request<ThreadMessagesResponse>('GET', `/api/v1/threads/${encodeURIComponent(params.threadId)}/messages`, {
+				query: { user_id: params.userId, after, limit },
+			});
+			const batch = data.messages || [];
+			messages.push(...batch);
+			if (batch.length === 0 || (data.has_more === undefined ? batch.length < limit : !data.has_more)) {
+				break;
+			}
+			after = String(batch[batch.length - 1].id);
+		}
+		return messages;
+	}
+
+	async registerScene(body: RegisterSceneRequest): Promise<void> {
+		await this.request<unknown>('POST', '/api/v1/scenes/create', { body, idempotent: true });
+	}
+
+	async trackThread(body: TrackThreadRequest): Promise<void> {
+		await this.request<unknown>('POST', '/api/v1/threads/track', { body, idempotent: true });
+	}
+
+	async updateSceneActive(body: UpdateSceneActiveRequest): Promise<void> {
+		await this.request<unknown>('POST', '/api/v1/scenes/update-active', { body, idempotent: true });
+	}
+
+	async updateSceneParticipants(body: UpdateSceneParticipantsRequest): Promise<void> {
+		await this.request<unknown>('POST', '/api/v1/scenes/update-participants', { body, idempotent: true });
+	}
+
+	async getGuildMembers(guildId: string): Promise<GuildMember[]> {
+		const data = await this.request<GuildMembersResponse>('GET', `/api/v1/guilds/${encodeURIComponent(guildId)}/members`);
+		return data.members || [];
+	}
+
+	/**
+	 * Post as a muse. Retried only on 429 (nothing was processed): after a 5xx or timeout the
+	 * message may already be in the thread. The idempotency key is sent so the bot can drop a
+	 * repeat when the post is resent from the outbox.
+	 */
+	async postMessage(body: PostMessageRequest, opts?: { idempotencyKey?: string }): Promise<PostMessageResult> {
+		const idempotencyKey = opts?.idempotencyKey;
+		const response = await this.execute('POST', '/api/v1/messages/post', {
+			body: idempotencyKey
+				? { ...body, fast: true, idempotency_key: idempotencyKey }
+				: { ...body, fast: true },
+			headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+			idempotent: false,
+			timeoutMs: this.timeoutMs * 2,
+		});
+		let data: PostMessageResponse = {};
+		try {
+			data = response.text ? JSON.parse(response.text) as PostMessageResponse : {};
+		} catch {
+			// The post went out; a body we cannot read only costs us the message id.
+		}
+		const messageId = data.message_id ?? data.message_ids?.[0] ?? null;
+		return { status: response.status, messageId: messageId === null ? null : String(messageId) };
+	}
+
+	buildUrl(path: string, query?: RequestOptions['query']): string {
+		const params = new URLSearchParams();
+		for (const [key, value] of Object.entries(query ?? {})) {
+			if (value !== undefined) {
+				params.set(key, String(value));
+			}
+		}
+		const search = params.toString();
+		return `${this.baseUrl}${path}${search ? `?${search}` : ''}`;
+	}
+
+	buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json'
+		};
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	private async request<T>(method: 'GET' | 'POST', path: string, opts: RequestOptions = {}): Promise<T> {
+		const response = await this.execute(method, path, opts);
+		return this.parseBody<T>(response, method, path);
+	}
+
+	/** Send with retries; resolves with the first 2xx response or throws the last ApiError. */
+	private async execute(method: 'GET' | 'POST', path: string, opts: RequestOptions): Promise<RequestUrlResponse> {
+		const idempotent = opts.idempotent ?? method === 'GET';
+		const params: RequestUrlParam = {
+			url: this.buildUrl(path, opts.query),
+			method,
+			headers: { ...this.buildHeaders(), ...opts.headers },
+			throw: false,
+		};
+		if (opts.body !== undefined) {
+			params.body = JSON.stringify(opts.body);
+		}
+
+		for (let attempt = 0; ; attempt++) {
+			let error: ApiError;
+			try {
+				const response = await this.send(params, method, path, opts.timeoutMs ?? this.timeoutMs);
+				if (response.status >= 200 && response.status < 300) {
+					return response;
+				}
+				const serverMessage = errorBodyMessage(response.text);
+				error = new ApiError({
+					kind: 'http',
+					message: describeStatus(response.status, serverMessage),
+					method,
+					path,
+					status: response.status,
+					body: response.text,
+					retryAfterMs: parseRetryAfter(getHeader(response.headers, 'Retry-After')),
+				});
+			} catch (e) {
+				if (!(e instanceof ApiError)) throw e;
+				error = e;
+			}
+
+			const retryable = error.isRateLimited || (idempotent && error.isTransient);
+			if (!retryable || attempt >= this.maxRetries) {
+				throw error;
+			}
+			if (error.retryAfterMs !== null && error.retryAfterMs > MAX_RETRY_AFTER_MS) {
+				throw error;
+			}
+			const delay = error.retryAfterMs ?? backoffDelay(attempt);
+			console.debug(`[MultimuseObsidian] ${method} ${path} failed (${error.message}); retrying in ${Math.round(delay)}ms`);
+			await sleep(delay);
+		}
+	}
+
+	/**
+	 * One attempt with a timeout. requestUrl cannot be cancelled, so a timed-out request may still
+	 * finish in the background; callers that hold a queue slot use a client without retries.
+	 */
+	private async send(params: RequestUrlParam, method: string, path: string, timeoutMs: number): Promise<RequestUrlResponse> {
+		let timer = 0;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = window.setTimeout(() => reject(new ApiError({
+				kind: 'timeout',
+				message: `MultiMuse API did not respond within ${Math.round(timeoutMs / 1000)}s`,
+				method,
+				path,
+			})), timeoutMs);
+		});
+		try {
+			return await Promise.race([this.transport(params), timeout]);
+		} catch (e) {
+			if (e instanceof ApiError) throw e;
+			throw new ApiError({
+				kind: 'network',
+				message: `Could not reach the MultiMuse API (${e instanceof Error ? e.message : String(e)})`,
+				method,
+				path,
+			});
+		} finally {
+			window.clearTimeout(timer);
+		}
+	}
+
+	private parseBody<T>(response: RequestUrlResponse, method: string, path: string): T {
+		if (!response.text) {
+			return {} as T;
+		}
+		try {
+			return JSON.parse(response.text) as T;
+		} catch {
+			throw new ApiError({
+				kind: 'invalid_response',
+				message: `MultiMuse API returned an unreadable response (${response.status})`,
+				method,
+				path,
+				status: response.status,
+				body: response.text,
+			});
+		}
+	}
+}
@@ -1,21 +1,152 @@
-import { Plugin, PluginSettingTab, Setting, Notice, TFile, TFolder, TAbstractFile, App, requestUrl, Modal, Editor, MarkdownView, CachedMetadata, RequestUrlResponse, Platform, Scope } from 'obsidian';
+import { Plugin, PluginSettingTab, Setting, Notice, TFile, TFolder, TAbstractFile, App, Modal, Editor, MarkdownView, CachedMetadata, Platform, Scope, ItemView, WorkspaceLeaf, setIcon, Menu, FuzzySuggestModal, FuzzyMatch, getFrontMatterInfo, parseYaml, ObsidianProtocolData } from 'obsidian';
+import { GuildMember, MultimuseApiClient, MuseInfo, PostMessageRequest, PostMessageResult, RegisterSceneRequest, SceneQueryResponse, SceneState, ThreadMessage, ThreadMetadata, TrackedThread, isApiError } from './api';
 
 interface MultimuseObsidianSettings {
 	botApiUrl: string; // Bot HTTP API URL (hidden from user UI for security)
 	pollInterval: number; // in minutes
 	scenesFolder: string;
 	basePath: string; // Obsidian Base file path (e.g., "RP Scenes/Roleplay Tracker.base")
+	sceneTemplate: string; // Default template note for new scenes (vault path, optional)
+	pasteLinkToScene: boolean; // Offer to turn an empty note in the scenes folder into a scene when a Discord link is pasted
+	folderTemplates: SceneFolderTemplate[]; // Templates for scenes created under specific roleplay folders
 	ownerId: string; // DEPRECATED: Auto-synced from API key, kept for backward compatibility
 	userIds: string; // DEPRECATED: Auto-synced from API key, kept for backward compatibility
 	enabled: boolean;
-	apiKey: string; // API key for authentication (Bearer token)
-	cachedUserId: string; // Cached user ID from API key (auto-populated)
+	apiKey: string; // DEPRECATED: Mirrors the first account's key, kept for backward compatibility
+	cachedUserId: string; // DEPRECATED: Mirrors the first account's detected user ID
+	/** MultiMuse accounts (API key + detected Discord user). The first one is the default. */
+	accounts: MultimuseAccount[];
 	trackRoleplay: boolean; // Whether to add Roleplay property from folder path
 	trackIsActive: boolean; // Whether to add Is Active? property (defaulting to true)
+	trackServerChannel: boolean; // Whether to add Server and Channel (Discord names) to new scenes
 	/** When enabled, Characters + Participants frontmatter push to the API (keyed by Link thread id). */
 	obsidianSourceOfTruth: boolean;
+	/** Frontmatter property names the plugin reads and writes (for vaults with their own naming scheme). */
+	propertyNames: ScenePropertyNames;
+	/** Which turn property to write: Replied? (true = you replied), My Turn? (its inverse), or both. */
+	turnProperty: TurnPropertyMode;
+	trackLastActivity: boolean; // Write Last Activity (latest post in the thread) from scene state
+	trackMyLastPost: boolean; // Write My Last Post (your latest post in the thread) from scene state
+	trackPostsSinceMine: boolean; // Write Posts Since Mine (posts by others since yours) from scene state
+	previewBeforeSend: boolean; // Show the composed post (wrappers, length, split) before Send as Muse posts it
+	clientChunking: boolean; // Split long posts in Obsidian and post them one message at a time
+	draftArea: DraftAreaMode; // What "Send reply draft as Muse" sends
+	draftMarker: string; // Line marking the start of the reply draft (draftArea "marker")
+	sentTextAction: SentTextAction; // How sent text is marked in the note after a successful post
+	sentTextLink: boolean; // Add a link to the posted Discord message when the bot reports its id
+	/** Which Obsidian-only syntax is rewritten before a post is sent to Discord. */
+	discordFormatting: DiscordFormatRules;
+	threadLogTarget: ThreadLogTarget; // Where "Pull thread log" writes imported messages
+	threadLogFolder: string; // Folder for separate log notes (outside the scenes folder, mirroring its subfolders)
+	autoPullThreadLog: boolean; // Pull the thread log when polling sees it is your turn again
+	turnAlerts: boolean; // Notice naming the scene when a thread flips to "your turn"
+	turnAlertsDesktop: boolean; // Also raise an OS notification (web Notification API)
+	turnAlertsDigest: boolean; // Bundle a poll's your-turn changes into one message
+	quietHoursEnabled: boolean;
+	quietHoursStart: string; // "HH:MM", local time; alerts are held until quiet hours end
+	quietHoursEnd: string; // "HH:MM", local time
+	outbox: OutboxEntry[]; // Send as Muse posts waiting to be delivered (kept across restarts)
+	scheduledPosts: ScheduledPost[]; // Posts waiting for their scheduled send time
+	recentMuses: string[]; // Muse ids (or lowercased names) most recently used first, for the muse picker
 }
 
+type TurnPropertyMode = 'replied' | 'myTurn' | 'both';
+/** Reply draft convention: everything below the draft marker, or the contents of the last callout. */
+type DraftAreaMode = 'marker' | 'lastCallout';
+/** What happens to sent text in the note: nothing, wrapped in a stamped callout, moved under Sent, or struck through. */
+type SentTextAction = 'none' | 'callout' | 'sentSection' | 'strike';
+/** Imported thread messages go under a Thread log heading in the scene note, or into a "<scene> Log" note in the log folder. */
+type ThreadLogTarget = 'note' | 'sibling';
+
+interface DiscordFormatRules {
+	stripComments: boolean; // Remove %%comments%%
+	resolveWikilinks: boolean; // [[Note|alias]] becomes its display text
+	stripEmbeds: boolean; // Remove ![[embeds]] (Discord cannot show vault files)
+	convertHighlights: boolean; // ==text== becomes **text**
+	convertCallouts: boolean; // "> [!type] Title" becomes a quote with a bold title
+	stripFootnotes: boolean; // Remove [^1] references and their definitions
+	stripTags: boolean; // Remove #tags
+}
+
+/** Answers handed to the new-scene wizard (URI handler, pasted link); each one skips its prompt. */
+interface NewScenePrefill {
+	link?: string;
+	muse?: string; // Muse name or trigger; several separated by commas
+	account?: MultimuseAccount | null;
+	folder?: string; // Relative to the scenes folder
+	name?: string;
+	participants?: number;
+	/** Existing empty note to turn into the scene instead of creating a new file. */
+	file?: TFile;
+	/** Ask before creating anything (the answers came from outside Obsidian, e.g. a web page). */
+	confirm?: boolean;
+}
+
+/** Template note used for new scenes created in (or below) a folder under the scenes folder. */
+interface SceneFolderTemplate {
+	folder: string; // Relative to the scenes folder
+	template: string; // Vault path of the template note
+}
+
+interface MultimuseAccount {
+	/** Stable local id (never shown to the API). */
+	id: string;
+	/** Display name; scenes pick an account by writing this (or the id) in the Account property. */
+	name: string;
+	apiKey: string;
+	cachedUserId: string; // Auto-populated from the API key
+	/** Optional folder under the scenes folder whose scenes default to this account. */
+	folder: string;
+}
+
+interface ScenePropertyNames {
+	link: string;
+	characters: string;
+	replied: string;
+	participants: string;
+	isActive: string;
+	myTurn: string;
+	lastActivity: string;
+	myLastPost: string;
+	postsSinceMine: string;
+	muteAlerts: string;
+	account: string;
+	logCursor: string;
+	museId: string;
+	server: string;
+	channel: string;
+}
+
+type ScenePropertyKey = keyof ScenePropertyNames;
+
+const DEFAULT_PROPERTY_NAMES: ScenePropertyNames = {
+	link: 'Link',
+	characters: 'Characters',
+	replied: 'Replied?',
+	participants: 'Participants',
+	isActive: 'Is Active?',
+	myTurn: 'My Turn?',
+	lastActivity: 'Last Activity',
+	myLastPost: 'My Last Post',
+	postsSinceMine: 'Posts Since Mine',
+	muteAlerts: 'Mute Alerts',
+	account: 'Account',
+	logCursor: 'Last Pulled Message',
+	museId: 'Muse ID',
+	server: 'Server',
+	channel: 'Channel',
+};
+
+const DEFAULT_DISCORD_FORMAT_RULES: DiscordFormatRules = {
+	stripComments: true,
+	resolveWikilinks: true,
+	stripEmbeds: true,
+	convertHighlights: true,
+	convertCallouts: true,
+	stripFootnotes: true,
+	stripTags: true,
+};
+
 /** Canonical API base URL (no trailing slash). Old IP:port configs are migrated to this on load. */
 const MULTIMUSE_API_BASE = 'https://api.multimuse.app';
 
@@ -24,82 +155,131 @@ const DEFAULT_SETTINGS: MultimuseObsidianSettings = {
 	pollInterval: 15,
 	scenesFolder: 'RP Scenes',
 	basePath: '',
+	sceneTemplate: '',
+	pasteLinkToScene: true,
+	folderTemplates: [],
 	ownerId: '', // Deprecated - auto-synced from API key
 	userIds: '', // Deprecated - auto-synced from API key
 	enabled: true,
 	apiKey: '',
 	cachedUserId: '', // Auto-populated from API key
+	accounts: [],
 	trackRoleplay: true, // Default: extract Roleplay from folder path
+	trackServerChannel: false,
 	trackIsActive: true, // Default: add Is Active? property
 	obsidianSourceOfTruth: false,
+	propertyNames: { ...DEFAULT_PROPERTY_NAMES },
+	turnProperty: 'replied',
+	trackLastActivity: false,
+	trackMyLastPost: false,
+	trackPostsSinceMine: false,
+	previewBeforeSend: false,
+	clientChunking: false,
+	draftArea: 'marker',
+	draftMarker: '%%reply%%',
+	sentTextAction: 'none',
+	sentTextLink: false,
+	discordFormatting: { ...DEFAULT_DISCORD_FORMAT_RULES },
+	threadLogTarget: 'note',
+	threadLogFolder: 'RP Logs',
+	autoPullThreadLog: false,
+	turnAlerts: true,
+	turnAlertsDesktop: false,
+	turnAlertsDigest: false,
+	quietHoursEnabled: false,
+	quietHoursStart: '23:00',
+	quietHoursEnd: '08:00',
+	outbox: [],
+	scheduledPosts: [],
+	recentMuses: [],
 };
 
-interface MuseInfo {
-	name: string;
-	trigger: string;
-	tags: string;
-	owner_id: number;
-	is_shared: boolean;
-	muse_id?: string | null; // Optional: for API calls (alias-safe); display always uses name
-}
-
 type FrontmatterData = Record<string, unknown>;
-type FrontmatterValue = string | number | boolean | string[];
-
-interface AuthMeResponse {
-	user_id?: string | number;
-}
-
-interface MusesListResponse {
-	muses?: MuseInfo[];
-}
-
-interface SceneState {
-	replied?: boolean | string | null;
-	is_from_character?: boolean | string | null;
-	timestamp?: string | null;
-	your_last_post?: string | null;
-	posted_since_count?: number | null;
+/** Values the frontmatter writer accepts; Dates are written as Obsidian date/datetime strings. */
+type FrontmatterValue =
+	| string
+	| number
+	| boolean
+	| null
+	| Date
+	| FrontmatterValue[]
+	| { [key: string]: FrontmatterValue };
+/** Frontmatter changes keyed by property name; `undefined` removes the property. */
+type FrontmatterUpdates = Record<string, FrontmatterValue | undefined>;
+
+/** A tracked thread together with the account whose tracker returned it. */
+interface TrackedThreadSource {
+	thread: TrackedThread;
+	account: MultimuseAccount;
+	userId: string;
 }
 
-interface SceneQueryResponse {
-	tracked?: boolean;
-	state?: SceneState | null;
+/** One row of the Sync from Tracker review: `location` is relative to the scenes folder until confirmed. */
+interface TrackerSyncRow extends TrackedThreadSource {
+	sceneName: string;
+	location: string;
+	selected: boolean;
 }
 
-interface TrackedThread {
-	thread_id: string | number;
-	muse_name?: string;
-	muse_names?: string[];
-	participants?: number | string;
-	scene_path?: string;
-	scene_paths?: string[];
-	guild_id?: string | number | null;
-	thread_name?: string;
+/** A span of note lines; `endLine` is exclusive. `text` is what gets posted (callout markup removed). */
+interface NoteBlock {
+	text: string;
+	startLine: number;
+	endLine: number;
 }
 
-interface TrackedThreadsResponse {
-	threads?: TrackedThread[];
+/**
+ * Where posted text came from, remembered at send time so it can be marked once the post succeeds.
+ * The note may change meanwhile, so `raw` is located again near `offset` before editing.
+ */
+interface SentSource {
+	path: string;
+	/** Exact note text that was sent (including callout markup for a callout draft). */
+	raw: string;
+	offset: number;
+	/** The draft marker line, when the text came from below it; marked text is moved above it. */
+	belowMarker?: string;
+	/** Text actually posted, when it was edited in the preview; it replaces `raw` when marking. */
+	sent?: string;
 }
 
-interface GuildMember {
+/** A Send as Muse post waiting in the outbox. `id` is also the idempotency key sent with every attempt. */
+interface OutboxEntry {
 	id: string;
-	username: string;
-	display_name: string;
+	createdAt: number;
+	scenePath: string | null;
+	museName: string;
+	accountId: string | null;
+	postBody: PostMessageRequest;
+	attempts: number;
+	nextAttemptAt: number;
+	lastError: string | null;
+	/** The bot rejected the post outright; it is only sent again from the outbox modal. */
+	failed: boolean;
+	source?: SentSource;
+	/** Position of this message in a post split in Obsidian; later parts wait for earlier ones. */
+	chunk?: { index: number; total: number };
 }
 
-interface GuildMembersResponse {
-	members?: GuildMember[];
-}
-
-interface ApiErrorBody {
-	message?: string;
+/** A Schedule as Muse post. The scene's account and muse wrappers are resolved when it fires. */
+interface ScheduledPost {
+	id: string;
+	scheduledAt: number;
+	createdAt: number;
+	scenePath: string;
+	museName: string;
+	threadId: string;
+	accountId: string | null;
+	content: string;
+	/** Muse chosen when the post was scheduled, so sending it never has to ask. */
+	museId?: string | null;
 }
 
-interface MuseWrappersResolveResponse {
-	header?: string;
-	footer?: string;
-	muse_id?: string | null;
+/** A scene that flipped to "your turn", waiting to be announced. */
+interface TurnAlert {
+	path: string;
+	sceneName: string;
+	roleplay: string | null;
 }
 
 const DISCORD_MESSAGE_BUDGET = 2000;
@@ -113,16 +293,36 @@ const SCENE_METADATA_DEBOUNCE_MS = 8000;
 const SCENE_QUERY_COOLDOWN_MS = 45000;
 /** Pause between scenes during batch poll. */
 const POLL_SCENE_DELAY_MS = 500;
-
-/** Mirrors MultiMuse core/post_wrappers.compose_chunk_for_send (single-chunk Send as Muse). */
+/** Coalesce vault events into one scene dashboard re-render. */
+const DASHBOARD_REFRESH_DEBOUNCE_MS = 750;
+
+const VIEW_TYPE_SCENE_DASHBOARD = 'multimuse-scene-dashboard';
+/** How often queued outbox posts are checked for a due retry. */
+const OUTBOX_CHECK_INTERVAL_MS = 60000;
+const OUTBOX_RETRY_BASE_MS = 30000;
+const OUTBOX_RETRY_MAX_MS = 30 * 60000;
+/** How many recently used muses the picker lists first. */
+const RECENT_MUSES_LIMIT = 8;
+/** How often scheduled posts are checked for their send time. */
+const SCHEDULE_CHECK_INTERVAL_MS = 30000;
+/** Heading that "Move to Sent section" files sent text under. */
+const SENT_SECTION_HEADING = '## Sent';
+/** Heading that "Pull thread log" appends imported messages under (when writing into the scene note). */
+const THREAD_LOG_HEADING = '## Thread log';
+
+/**
+ * Mirrors MultiMuse core/post_wrappers.compose_chunk_for_send: the header goes on the first chunk
+ * of a post and the footer on the last (a single-chunk post gets both).
+ */
 function composeChunkForSend(
 	chunk: string,
 	headerBody: string,
 	footerBody: string,
-	budget = DISCORD_MESSAGE_BUDGET
+	budget = DISCORD_MESSAGE_BUDGET,
+	position: { isFirst: boolean; isLast: boolean } = { isFirst: true, isLast: true }
 ): string {
-	const museHeader = headerBody || '';
-	const museFooter = footerBody || '';
+	const museHeader = position.isFirst ? headerBody || '' : '';
+	const museFooter = position.isLast ? footerBody || '' : '';
 	const reserved = museHeader.length + museFooter.length;
 	const icBudget = Math.max(0, budget - reserved);
 	const icSlice = chunk ? chunk.slice(0, icBudget) : '';
@@ -149,13 +349,403 @@ function composeChunkForSend(
 	return parts.join('');
 }
 
+/** Whether the whole post, wrappers included, fits one message (composeChunkForSend itself truncates to the budget). */
+function fitsOneMessage(ic: string, header: string, footer: string, budget = DISCORD_MESSAGE_BUDGET): boolean {
+	return composeChunkForSend(ic, header, footer, Infinity).length <= budget;
+}
+
 function canPreapplyWrappers(ic: string, header: string, footer: string): boolean {
-	const composed = composeChunkForSend(ic, header, footer);
-	return composed.length <= DISCORD_MESSAGE_BUDGET;
+	return fitsOneMessage(ic, header, footer);
+}
+
+/** Set a post's text, pre-applying wrappers when the result fits one Discord message. */
+function setPostContent(postBody: PostMessageRequest, ic: string, header: string, footer: string): void {
+	if ((header || footer) && canPreapplyWrappers(ic, header, footer)) {
+		postBody.content = composeChunkForSend(ic, header, footer);
+		postBody.wrappers_preapplied = true;
+	} else {
+		postBody.content = ic;
+		delete postBody.wrappers_preapplied;
+	}
+}
+
+/** Whether ending a chunk at `cut` leaves no code, formatting span, link or <mention> open. */
+function isSafeChunkBoundary(text: string, cut: number): boolean {
+	const prefix = text.slice(0, cut);
+	const fences = prefix.split('```').length - 1;
+	if (fences % 2 === 1) {
+		return false;
+	}
+	const prose = prefix.replace(/```[\s\S]*?```/g, '');
+	if ((prose.split('`').length - 1) % 2 === 1) {
+		return false;
+	}
+	const inline = prose.replace(/`[^`]*`/g, '').replace(/\\[*_~|]/g, '');
+	for (const marker of ['**', '__', '~~', '||']) {
+		if ((inline.split(marker).length - 1) % 2 === 1) {
+			return false;
+		}
+	}
+	// Single-marker italics (*action text*, _aside_): ignore list bullets, a lone * between spaces
+	// and underscores inside words, which Discord does not treat as formatting
+	const singles = inline
+		.replace(/\*\*|__/g, '')
+		.replace(/^[ \t]*\*[ \t]/gm, '')
+		.replace(/[ \t]\*(?=[ \t])/g, '')
+		.replace(/([A-Za-z0-9])_(?=[A-Za-z0-9])/g, '$1');
+	for (const marker of ['*', '_']) {
+		if ((singles.split(marker).length - 1) % 2 === 1) {
+			return false;
+		}
+	}
+	return inline.lastIndexOf('[') <= inline.lastIndexOf(']') && inline.lastIndexOf('<') <= inline.lastIndexOf('>');
+}
+
+/**
+ * End of the next chunk in `text` within `room` characters: the last paragraph, line, sentence or
+ * word break that does not split formatting, preferring breaks past the middle of the chunk.
+ */
+function findChunkCut(text: string, room: number): number {
+	const head = text.slice(0, room);
+	const tiers = [/\n[ \t]*\n/g, /\n/g, /[.!?…]["'”’)*_~|]*[ \t]+/g, /[ \t]+/g];
+	const candidates = tiers.map((pattern) => {
+		const ends: number[] = [];
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(head)) !== null) {
+			ends.push(match.index + match[0].length);
+		}
+		return ends.reverse();
+	});
+	for (const minimum of [room / 2, 1]) {
+		for (const ends of candidates) {
+			const cut = ends.find((end) => end >= minimum && isSafeChunkBoundary(text, end));
+			if (cut !== undefined) {
+				return cut;
+			}
+		}
+	}
+	// No clean break (e.g. one huge code block): fall back to the last word break, then a hard cut.
+	const anyBreak = candidates[candidates.length - 1][0];
+	return anyBreak !== undefined && anyBreak > 0 ? anyBreak : room;
+}
+
+/**
+ * Split a post into Discord messages the way the bot does: the header is reserved on the first
+ * message and the footer on the last, and text breaks via findChunkCut. Returns the text of each
+ * message without wrappers (compose them with composeChunkForSend).
+ */
+function splitPostChunks(ic: string, header: string, footer: string, budget = DISCORD_MESSAGE_BUDGET): string[] {
+	if (fitsOneMessage(ic, header, footer, budget)) {
+		return [ic];
+	}
+	// Wrappers are joined to the text with a newline
+	const footerRoom = footer ? footer.length + 1 : 0;
+	const chunks: string[] = [];
+	let rest = ic;
+	while (rest) {
+		const headerRoom = chunks.length === 0 && header ? header.length + 1 : 0;
+		if (rest.length <= budget - headerRoom - footerRoom) {
+			chunks.push(rest);
+			break;
+		}
+		// Leave at least one character for the last message, which carries the footer
+		const room = Math.max(1, Math.min(budget - headerRoom, rest.length - 1));
+		const cut = findChunkCut(rest, room);
+		chunks.push(rest.slice(0, cut).trimEnd());
+		rest = rest.slice(cut).trimStart();
+	}
+	return chunks;
+}
+
+/** First line after the frontmatter block (0 when the note has none). */
+function findBodyStartLine(lines: string[]): number {
+	if (lines[0]?.trim() !== '---') {
+		return 0;
+	}
+	const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+	return end === -1 ? 0 : end + 1;
+}
+
+/** The blank-line-delimited paragraph containing `line`, or null on a blank line. */
+function extractParagraph(lines: string[], line: number): NoteBlock | null {
+	const bodyStart = findBodyStartLine(lines);
+	if (line < bodyStart || !lines[line]?.trim()) {
+		return null;
+	}
+	let start = line;
+	while (start > bodyStart && lines[start - 1].trim()) {
+		start--;
+	}
+	let end = line;
+	while (end < lines.length - 1 && lines[end + 1].trim()) {
+		end++;
+	}
+	return { text: lines.slice(start, end + 1).join('\n'), startLine: start, endLine: end + 1 };
+}
+
+/** Text under the nearest heading above `line`, up to the next heading of the same or higher level. */
+function extractHeadingSection(lines: string[], line: number): NoteBlock | null {
+	const headingPattern = /^(#{1,6})\s/;
+	const bodyStart = findBodyStartLine(lines);
+	let start = bodyStart;
+	let level = 0;
+	for (let index = Math.min(line, lines.length - 1); index >= bodyStart; index--) {
+		const match = headingPattern.exec(lines[index]);
+		if (match) {
+			start = index + 1;
+			level = match[1].length;
+			break;
+		}
+	}
+	let end = lines.length;
+	for (let index = start; index < lines.length; index++) {
+		const match = headingPattern.exec(lines[index]);
+		// Before any heading, the section runs to the first heading of any level.
+		if (match && (level === 0 || match[1].length <= level)) {
+			end = index;
+			break;
+		}
+	}
+	return { text: lines.slice(start, end).join('\n'), startLine: start, endLine: end };
+}
+
+/**
+ * Everything after the last line containing `marker` (up to the Sent or Thread log section, if any),
+ * or null when the note has no marker.
+ */
+function extractBelowMarker(lines: string[], marker: string): NoteBlock | null {
+	const trimmed = marker.trim();
+	if (!trimmed) {
+		return null;
+	}
+	for (let index = lines.length - 1; index >= 0; index--) {
+		if (lines[index].includes(trimmed)) {
+			let end = lines.length;
+			for (let next = index + 1; next < lines.length; next++) {
+				if (lines[next].trim() === SENT_SECTION_HEADING || lines[next].trim() === THREAD_LOG_HEADING) {
+					end = next;
+					break;
+				}
+			}
+			return { text: lines.slice(index + 1, end).join('\n'), startLine: index + 1, endLine: end };
+		}
+	}
+	return null;
+}
+
+/** Body of the last callout (`> [!type]` block) with its title line and quote markers removed. */
+function extractLastCallout(lines: string[]): NoteBlock | null {
+	for (let index = lines.length - 1; index >= 0; index--) {
+		if (!/^>\s*\[!/.test(lines[index])) {
+			continue;
+		}
+		const body: string[] = [];
+		let next = index + 1;
+		for (; next < lines.length && lines[next].startsWith('>'); next++) {
+			body.push(lines[next].replace(/^>\s?/, ''));
+		}
+		return { text: body.join('\n'), startLine: index, endLine: next };
+	}
+	return null;
+}
+
+/** "YYYY-MM-DD HH:mm" in local time, for stamps written into notes. */
+function formatNoteTimestamp(date: Date): string {
+	return `${date.getFullYear()}-${padDatePart(date.getMonth() + 1)}-${padDatePart(date.getDate())} ${padDatePart(date.getHours())}:${padDatePart(date.getMinutes())}`;
+}
+
+/**
+ * Append `entry` lines as the last entry of the `heading` section (before any heading that follows it),
+ * creating the section at the end of the note when it is missing.
+ */
+function appendToSection(content: string, heading: string, entry: string[]): string {
+	const lines = content.trimEnd().split('\n');
+	const headingIndex = lines.findIndex((line) => line.trim() === heading);
+	if (headingIndex === -1) {
+		return [...lines, '', heading, ...entry, ''].join('\n');
+	}
+	let insertAt = lines.length;
+	for (let index = headingIndex + 1; index < lines.length; index++) {
+		if (/^#{1,2}\s/.test(lines[index])) {
+			insertAt = index;
+			break;
+		}
+	}
+	while (insertAt > headingIndex + 1 && !lines[insertAt - 1].trim()) {
+		insertAt--;
+	}
+	lines.splice(insertAt, 0, ...entry, ...(insertAt < lines.length ? [''] : []));
+	return `${lines.join('\n')}\n`;
+}
+
+/** Index of the occurrence of `needle` closest to `near`, or -1. */
+function findNearestOccurrence(haystack: string, needle: string, near: number): number {
+	let best = -1;
+	for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+		if (best === -1 || Math.abs(index - near) < Math.abs(best - near)) {
+			best = index;
+		}
+	}
+	return best;
+}
+
+/** Plain "@name" text that Discord will not turn into a mention (real mentions look like <@123>). */
+function findUnresolvedMentions(text: string): string[] {
+	const found = new Set<string>();
+	const pattern = /(^|[^<\w])@([\w.]{2,32})/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		const name = match[2];
+		if (name !== 'everyone' && name !== 'here') {
+			found.add(`@${name}`);
+		}
+	}
+	return [...found];
+}
+
+/** Anything but whitespace, "#" and punctuation that ends a tag. */
+const TAG_CHAR = `[^\\s#.,;:!?()[\\]{}"'<>*~|=]`;
+const TAG_PATTERN = new RegExp(`(^|[ \\t(])#(${TAG_CHAR}+)`, 'gm');
+
+/**
+ * Whether the text after a "#" is an Obsidian tag: it needs one non-digit character ("#1" is not a
+ * tag), and hex colours (#ff0000, #fff) and ordinals (#1st) are left alone.
+ */
+function isTagName(name: string): boolean {
+	return /\D/.test(name)
+		&& !/^(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(name)
+		&& !/^\d+(?:st|nd|rd|th)$/i.test(name);
+}
+
+/** Apply `fn` to the text outside fenced code blocks and inline code spans. */
+function mapOutsideCode(text: string, fn: (prose: string) => string): string {
+	return text
+		.split(/(```[\s\S]*?```|`[^`\n]+`)/)
+		.map((part, index) => index % 2 === 1 ? part : fn(part))
+		.join('');
+}
+
+/**
+ * Rewrite Obsidian-only markdown into what Discord renders, rule by rule. Code is left untouched.
+ * Warnings name constructs that will reach Discord as literal text.
+ */
+function convertToDiscordMarkdown(text: string, rules: DiscordFormatRules): { text: string; warnings: string[] } {
+	const warnings = new Set<string>();
+	// Stands in for removed text until the tidy below, so only those spots are tidied
+	const removed = '\u0000';
+	// Comments go first, so code inside a comment goes with it; whichever of a comment or code
+	// starts first wins, as in Obsidian's reading view.
+	const uncommented = text
+		.split(/(%%[\s\S]*?%%|```[\s\S]*?```|`[^`\n]+`)/)
+		.map((part, index) => {
+			if (index % 2 === 0 || !part.startsWith('%%')) return part;
+			if (rules.stripComments) return removed;
+			warnings.add('Comments (%%…%%) will be posted');
+			return part;
+		})
+		.join('');
+	const converted = mapOutsideCode(uncommented, (prose) => {
+		let out = prose;
+		if (/!\[\[[^\]]+\]\]/.test(out)) {
+			if (rules.stripEmbeds) {
+				out = out.replace(/!\[\[[^\]]+\]\]/g, removed);
+			} else {
+				warnings.add('Embeds (![[…]]) are sent as plain text');
+			}
+		}
+		if (rules.resolveWikilinks) {
+			out = out.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g,
+				(_match, target: string, alias?: string) => alias ?? target.replace(/#\^?/, ' > '));
+		} else if (/\[\[[^\]]+\]\]/.test(out)) {
+			warnings.add('Wikilinks ([[…]]) are sent as plain text');
+		}
+		if (rules.convertHighlights) {
+			out = out.replace(/==([^=\n]+)==/g, '**$1**');
+		} else if (/==[^=\n]+==/.test(out)) {
+			warnings.add('Highlights (==…==) are not supported by Discord');
+		}
+		if (rules.convertCallouts) {
+			out = out.replace(/^(>\s*)\[!([\w-]+)\][+-]?[ \t]*(.*)$/gm, (_match, quote: string, type: string, title: string) =>
+				`${quote}**${title.trim() || type.charAt(0).toUpperCase() + type.slice(1)}**`);
+		} else if (/^>\s*\[![\w-]+\]/m.test(out)) {
+			warnings.add('Callout titles ([!type]) are sent as plain text');
+		}
+		if (rules.stripFootnotes) {
+			out = out.replace(/^\[\^[^\]]+\]:.*$/gm, removed).replace(/\[\^[^\]]+\]|\^\[[^\]]*\]/g, removed);
+		} else if (/\[\^[^\]]+\]|\^\[[^\]]*\]/.test(out)) {
+			warnings.add('Footnotes are not supported by Discord');
+		}
+		const untagged = out.replace(TAG_PATTERN, (match: string, lead: string, name: string) =>
+			isTagName(name) ? `${lead}${removed}` : match);
+		if (rules.stripTags) {
+			out = untagged;
+		} else if (untagged !== out) {
+			warnings.add('Tags (#tag) will be posted');
+		}
+		if (/^\s*\|.*\|\s*\n\s*\|?\s*:?-{3,}/m.test(out)) {
+			warnings.add('Tables are not rendered by Discord');
+		}
+		if (/\$\$[\s\S]+?\$\$/.test(out)) {
+			warnings.add('Math ($$…$$) is sent as plain text');
+		}
+		return out;
+	});
+	return { text: tidyRemovedText(converted, removed), warnings: [...warnings] };
+}
+
+/**
+ * Close the gaps left where convertToDiscordMarkdown removed text (marked by `removed`): one space
+ * inside a line, nothing at a line's edge, and at most one blank line where whole lines went.
+ * Everything else keeps the author's spacing.
+ */
+function tidyRemovedText(text: string, removed: string): string {
+	const gap = new RegExp(`[ \\t]*${removed}(?:[ \\t]*${removed})*[ \\t]*`, 'g');
+	const lineGone = '\u0001';
+	const spliced = text.replace(gap, (match: string, offset: number) => {
+		const before = offset > 0 ? text[offset - 1] : '\n';
+		const after = offset + match.length < text.length ? text[offset + match.length] : '\n';
+		if (before === '\n' && after === '\n') {
+			return lineGone;
+		}
+		return before !== '\n' && after !== '\n' && /[ \t]/.test(match) ? ' ' : '';
+	});
+	const lines = new RegExp(`\\n*${lineGone}(?:\\n*${lineGone})*\\n*`, 'g');
+	return spliced.replace(lines, (match: string, offset: number) => {
+		if (offset === 0 || offset + match.length === spliced.length) {
+			return '';
+		}
+		const newlines = match.length - match.split(lineGone).length + 1;
+		return '\n'.repeat(Math.max(1, Math.min(2, newlines - 1)));
+	});
+}
+
+/** Replace {{name}} placeholders with `values`; unknown names are left as written. */
+function fillTemplatePlaceholders(text: string, values: Record<string, string>): string {
+	return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+		Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match);
 }
 
-function parseJson<T>(text: string): T {
-	return JSON.parse(text) as T;
+/** fillTemplatePlaceholders applied to every string in a parsed frontmatter value. */
+function fillTemplateFrontmatter(value: unknown, values: Record<string, string>): FrontmatterValue {
+	if (typeof value === 'string') {
+		return fillTemplatePlaceholders(value, values);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => fillTemplateFrontmatter(item, values));
+	}
+	if (value && typeof value === 'object' && !(value instanceof Date)) {
+		const filled: { [key: string]: FrontmatterValue } = {};
+		for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+			filled[key] = fillTemplateFrontmatter(item, values);
+		}
+		return filled;
+	}
+	return value as FrontmatterValue;
+}
+
+/** Key a muse is remembered by in the recently used list. */
+function museRecentKey(muse: MuseInfo): string {
+	return muse.muse_id ? String(muse.muse_id) : muse.name.toLowerCase().trim();
 }
 
 function getErrorMessage(error: unknown): string {
@@ -174,6 +764,67 @@ function frontmatterValueToString(value: unknown, fallback = ''): string {
 	return fallback;
 }
 
+function padDatePart(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+/** Local date (YYYY-MM-DD), or date-time (YYYY-MM-DDTHH:mm:ss) when the time is not midnight — the formats Obsidian properties use. */
+function formatFrontmatterDate(date: Date): string {
+	const day = `${date.getFullYear()}-${padDatePart(date.getMonth() + 1)}-${padDatePart(date.getDate())}`;
+	if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+		return day;
+	}
+	return `${day}T${padDatePart(date.getHours())}:${padDatePart(date.getMinutes())}:${padDatePart(date.getSeconds())}`;
+}
+
+/** API timestamps are ISO strings; store them as local Obsidian datetimes so Bases can sort by them. */
+function apiTimestampToFrontmatter(raw: string): string {
+	const parsed = new Date(raw);
+	return isNaN(parsed.getTime()) ? raw : formatFrontmatterDate(parsed);
+}
+
+function normalizeFrontmatterValue(value: FrontmatterValue): unknown {
+	if (value instanceof Date) {
+		return formatFrontmatterDate(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => normalizeFrontmatterValue(item));
+	}
+	if (value !== null && typeof value === 'object') {
+		const nested: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			nested[key] = normalizeFrontmatterValue(item);
+		}
+		return nested;
+	}
+	return value;
+}
+
+function parseFrontmatterBoolean(raw: unknown): boolean | null {
+	if (raw === true || raw === 'true' || raw === 'True') return true;
+	if (raw === false || raw === 'false' || raw === 'False') return false;
+	return null;
+}
+
+/** Minutes since midnight for "HH:MM", or null when the value is not a valid time. */
+function parseClockMinutes(value: string): number | null {
+	const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+	if (!match) return null;
+	const hours = parseInt(match[1], 10);
+	const minutes = parseInt(match[2], 10);
+	if (hours > 23 || minutes > 59) return null;
+	return hours * 60 + minutes;
+}
+
+function yamlSingleQuote(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Property names like `Replied?` must be quoted as YAML keys; plain identifiers are left bare. */
+function yamlPropertyKey(name: string): string {
+	return /^[A-Za-z_][A-Za-z0-9_ ]*$/.test(name) ? name : yamlSingleQuote(name);
+}
+
 function sortNamesAlphabetically(names: string[]): string[] {
 	return [...names].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
 }
@@ -182,6 +833,50 @@ function sortMusesAlphabetically(muses: MuseInfo[]): MuseInfo[] {
 	return [...muses].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
 }
 
+/** Tracker participants may arrive as number or string; fall back to 2 like the scene wizard. */
+function parseParticipants(raw: unknown): number {
+	const participants = typeof raw === 'number'
+		? raw
+		: typeof raw === 'string'
+			? parseInt(raw, 10)
+			: NaN;
+	if (isNaN(participants) || participants < 1) {
+		return 2;
+	}
+	return Math.min(participants, 99);
+}
+
+function buildDiscordThreadUrl(guildId: string, threadId: string): string {
+	return `https://discord.com/channels/${guildId}/${threadId}`;
+}
+
+/** Lowercase letters and digits only, so "For the Greeks!" and "for-the-greeks" compare equal. */
+function normalizeFolderMatchName(name: string): string {
+	return name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/** Strip characters Obsidian does not allow in file names (Discord thread names often contain them). */
+function sanitizeSceneFileName(name: string): string {
+	const cleaned = name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+	return cleaned || 'Untitled Scene';
+}
+
+/** Local "YYYY-MM-DDTHH:MM", the value format of a datetime-local input. */
+function formatDateTimeInput(date: Date): string {
+	return `${date.getFullYear()}-${padDatePart(date.getMonth() + 1)}-${padDatePart(date.getDate())}T${padDatePart(date.getHours())}:${padDatePart(date.getMinutes())}`;
+}
+
+/** Random id for outbox entries; doubles as the post's idempotency key. */
+function createOutboxId(): string {
+	const random = Array.from({ length: 4 }, () => Math.floor(Math.random() * 0x10000).toString(16).padStart(4, '0')).join('');
+	return `${Date.now().toString(36)}-${random}`;
+}
+
+/** Wait before the next automatic retry of a queued post: doubles per attempt, capped at 30 minutes. */
+function outboxRetryDelay(attempts: number): number {
+	return Math.min(OUTBOX_RETRY_MAX_MS, OUTBOX_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
 function metadataFingerprint(characters: string[], participants: number): string {
 	return `${sortNamesAlphabetically(characters).join('\x1f')}|${participants}`;
 }
@@ -211,6 +906,28 @@ export default class MultimuseObsidian extends Plugin {
 	sceneCreationInProgress = false;
 	/** Swallows Enter between wizard modals so it cannot reach the editor. */
 	sceneCreationKeymapScope: Scope | null = null;
+	/** Pending debounced re-render of open scene dashboards. */
+	private dashboardRefreshTimer: number | null = null;
+	/** Status bar item showing scenes awaiting reply and poll status (desktop only). */
+	private statusBarEl: HTMLElement | null = null;
+	lastPollAt: number | null = null;
+	nextPollAt: number | null = null;
+	/** Why the last poll failed (e.g. authentication), or null when it succeeded. */
+	lastPollError: string | null = null;
+	/** Reason the last threads/tracked fetch failed, for poll status reporting. */
+	private lastTrackedThreadsError: string | null = null;
+	/** In-flight outbox flush, so timers and the online event do not send the same post twice. */
+	private outboxFlushPromise: Promise<void> | null = null;
+	/** Scheduled posts found overdue at launch; held until the user confirms sending them. */
+	private heldScheduledPostIds = new Set<string>();
+	/** In-flight scheduled-post run, so a slow delivery does not overlap the next timer tick. */
+	private scheduledPostsPromise: Promise<void> | null = null;
+	/** Scheduled posts being delivered right now (the timer and "Send now" can reach the same post). */
+	private sendingScheduledPostIds = new Set<string>();
+	/** Scene paths with a thread log pull in progress (a poll and the command can overlap). */
+	private threadLogPulls = new Set<string>();
+	/** Your-turn alerts held for a digest or until quiet hours end (keyed by scene path). */
+	private pendingTurnAlerts = new Map<string, TurnAlert>();
 
 	async onload() {
 		await this.loadSettings();
@@ -219,12 +936,12 @@ export default class MultimuseObsidian extends Plugin {
 		this.addSettingTab(new MultimuseObsidianSettingTab(this.app, this));
 
 		// Warm auth + muse cache in background so onload does not block the editor
-		if (this.settings.apiKey) {
-			void this.getUserIdFromApiKey().then(() => void this.syncMuses());
+		if (this.hasApiKey()) {
+			void this.syncMuses();
 		}
 
 		// Start polling if enabled (first poll deferred so startup stays responsive)
-		if (this.settings.enabled && this.settings.apiKey) {
+		if (this.settings.enabled && this.hasApiKey()) {
 			this.startPolling({ deferInitialCheck: true });
 		}
 
@@ -242,15 +959,7 @@ export default class MultimuseObsidian extends Plugin {
 			id: 'toggle-polling',
 			name: 'Toggle Discord Polling',
 			callback: () => {
-				this.settings.enabled = !this.settings.enabled;
-				void this.saveSettings();
-				if (this.settings.enabled) {
-					this.startPolling();
-					new Notice('Discord polling enabled');
-				} else {
-					this.stopPolling();
-					new Notice('Discord polling disabled');
-				}
+				void this.setPollingEnabled(!this.settings.enabled);
 			}
 		});
 
@@ -270,6 +979,75 @@ export default class MultimuseObsidian extends Plugin {
 			});
 		}
 
+		this.registerView(VIEW_TYPE_SCENE_DASHBOARD, (leaf) => new SceneDashboardView(leaf, this));
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass('multimuse-status-bar', 'mod-clickable');
+		this.registerDomEvent(this.statusBarEl, 'click', (evt) => this.showStatusBarMenu(evt));
+		// Scene frontmatter is only ready once the metadata cache has resolved.
+		this.app.workspace.onLayoutReady(() => this.updateStatusBar());
+
+		// Retry queued posts on a timer and as soon as the device reconnects
+		this.registerInterval(window.setInterval((): void => {
+			void this.flushOutbox();
+		}, OUTBOX_CHECK_INTERVAL_MS));
+		this.registerDomEvent(window, 'online', (): void => {
+			void this.flushOutbox({ force: true });
+		});
+		this.app.workspace.onLayoutReady((): void => {
+			void this.flushOutbox();
+		});
+
+		// Fire scheduled posts while Obsidian is open; ones missed while it was closed need a confirmation
+		this.app.workspace.onLayoutReady((): void => {
+			void this.catchUpScheduledPosts();
+		});
+		this.registerInterval(window.setInterval((): void => {
+			void this.runScheduledPosts();
+		}, SCHEDULE_CHECK_INTERVAL_MS));
+
+		this.addCommand({
+			id: 'open-scheduled-posts',
+			name: 'Show scheduled posts',
+			icon: 'calendar-clock',
+			callback: () => {
+				new ScheduledPostsModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-outbox',
+			name: 'Open Send as Muse outbox',
+			icon: 'inbox',
+			callback: () => {
+				new OutboxModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-scene-dashboard',
+			name: 'Open scene dashboard',
+			icon: 'layout-list',
+			callback: () => {
+				void this.activateSceneDashboard();
+			}
+		});
+
+		if (!Platform.isMobile) {
+			this.addRibbonIcon('layout-list', 'Open scene dashboard', () => {
+				void this.activateSceneDashboard();
+			});
+		}
+
+		// Import tracked threads that have no scene note yet
+		this.addCommand({
+			id: 'sync-from-tracker',
+			name: 'Sync from Tracker',
+			callback: () => {
+				void this.syncFromTracker();
+			}
+		});
+
 		// First-time vault layout: scenes folder + Base (.base or .md) from settings
 		this.addCommand({
 			id: 'initialize-multimuse-workspace',
@@ -279,6 +1057,67 @@ export default class MultimuseObsidian extends Plugin {
 			}
 		});
 
+		// One-time rename of default property names to the configured mapping
+		this.addCommand({
+			id: 'migrate-property-names',
+			name: 'Rename scene properties to configured names',
+			callback: () => {
+				void this.migratePropertyNames();
+			}
+		});
+
+		// Send a block of the scene note without selecting it (handy on mobile)
+		const blockCommands: { id: string; name: string; block: 'paragraph' | 'section' | 'draft' }[] = [
+			{ id: 'send-paragraph-as-muse', name: 'Send current paragraph as Muse', block: 'paragraph' },
+			{ id: 'send-section-as-muse', name: 'Send current heading section as Muse', block: 'section' },
+			{ id: 'send-draft-as-muse', name: 'Send reply draft as Muse', block: 'draft' },
+		];
+		for (const command of blockCommands) {
+			this.addCommand({
+				id: command.id,
+				name: command.name,
+				icon: 'send',
+				callback: async () => {
+					const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+					if (!view) {
+						new Notice('Open a scene note (with Link in frontmatter) and try again.');
+						return;
+					}
+					await this.sendBlockAsMuse(view, command.block);
+				}
+			});
+		}
+
+		// Edit the active scene's Characters and re-register it with the tracker
+		this.addCommand({
+			id: 'edit-scene-muses',
+			name: 'Add or remove muse in this scene',
+			icon: 'users',
+			callback: async () => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') {
+					new Notice('Open a scene note (with Link in frontmatter) and try again.');
+					return;
+				}
+				await this.editSceneMuses(file);
+			}
+		});
+
+		// Import new thread messages from Discord into the scene note (or its log note)
+		this.addCommand({
+			id: 'pull-thread-log',
+			name: 'Pull thread log',
+			icon: 'download',
+			callback: async () => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') {
+					new Notice('Open a scene note (with Link in frontmatter) and try again.');
+					return;
+				}
+				await this.pullThreadLog(file);
+			}
+		});
+
 		// Add command to insert Discord @ mention (guild members from Link property)
 		this.addCommand({
 			id: 'insert-mention',
@@ -293,15 +1132,53 @@ export default class MultimuseObsidian extends Plugin {
 			}
 		});
 
+		// obsidian://multimuse-scene?link=…&muse=… creates a scene straight from a Discord link
+		this.registerObsidianProtocolHandler('multimuse-scene', (params) => {
+			void this.handleSceneUri(params);
+		});
+
+		// Pasting a Discord link into an empty note in the scenes folder offers to make it a scene
+		this.registerEvent(
+			this.app.workspace.on('editor-paste', (evt, editor, info) => {
+				const file = info.file;
+				const text = evt.clipboardData?.getData('text/plain').trim() ?? '';
+				if (evt.defaultPrevented || !this.settings.pasteLinkToScene || !file
+					|| !file.path.startsWith(this.settings.scenesFolder + '/')
+					|| editor.getValue().trim() || /\s/.test(text) || !this.extractThreadInfoFromUrl(text)) {
+					return;
+				}
+				evt.preventDefault();
+				void this.offerSceneFromPastedLink(file, editor, text);
+			})
+		);
+
 		// Watch for scene file creation/modification to check state
 		this.registerEvent(
 			this.app.vault.on('modify', async (file) => {
 				if (file instanceof TFile && file.extension === 'md') {
+					this.scheduleSceneDashboardRefresh();
 					await this.handleSceneFileChange(file);
 				}
 			})
 		);
 
+		// Frontmatter is parsed after modify fires; re-render once the cache has caught up.
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file) => {
+				if (file.path.startsWith(this.settings.scenesFolder + '/')) {
+					this.scheduleSceneDashboardRefresh();
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', () => this.scheduleSceneDashboardRefresh())
+		);
+
+		this.registerEvent(
+			this.app.vault.on('rename', () => this.scheduleSceneDashboardRefresh())
+		);
+
 		this.registerEvent(
 			this.app.vault.on('create', async (file) => {
 				if (file instanceof TFile && file.extension === 'md') {
@@ -336,6 +1213,17 @@ export default class MultimuseObsidian extends Plugin {
 							}
 						});
 				});
+				menu.addItem((item) => {
+					item.setTitle('Schedule as Muse…')
+						.setIcon('calendar-clock')
+						.onClick(async () => {
+							if (view instanceof MarkdownView) {
+								await this.scheduleSelectionAsMuse(editor, view);
+							} else {
+								new Notice('This feature requires a markdown view.');
+							}
+						});
+				});
 			})
 		);
 	}
@@ -346,6 +1234,44 @@ export default class MultimuseObsidian extends Plugin {
 			window.clearTimeout(timerId);
 		}
 		this.sceneChangeDebounceTimers.clear();
+		if (this.dashboardRefreshTimer !== null) {
+			window.clearTimeout(this.dashboardRefreshTimer);
+			this.dashboardRefreshTimer = null;
+		}
+	}
+
+	/** Reveal the scene dashboard, opening it in the right sidebar the first time. */
+	async activateSceneDashboard(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_SCENE_DASHBOARD)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) {
+				return;
+			}
+			await leaf.setViewState({ type: VIEW_TYPE_SCENE_DASHBOARD, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/** Debounced re-render of every open scene dashboard. */
+	scheduleSceneDashboardRefresh(): void {
+		if (this.dashboardRefreshTimer !== null) {
+			window.clearTimeout(this.dashboardRefreshTimer);
+		}
+		this.dashboardRefreshTimer = window.setTimeout(() => {
+			this.dashboardRefreshTimer = null;
+			this.refreshSceneDashboards();
+			this.updateStatusBar();
+		}, DASHBOARD_REFRESH_DEBOUNCE_MS);
+	}
+
+	refreshSceneDashboards(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SCENE_DASHBOARD)) {
+			if (leaf.view instanceof SceneDashboardView) {
+				leaf.view.render();
+			}
+		}
 	}
 
 	async loadSettings() {
@@ -354,7 +1280,23 @@ export default class MultimuseObsidian extends Plugin {
 			? loaded as Partial<MultimuseObsidianSettings>
 			: {};
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, savedSettings);
-		// Ensure botApiUrl always uses default if empty or not set
+		this.settings.propertyNames = Object.assign({}, DEFAULT_PROPERTY_NAMES, savedSettings.propertyNames);
+		this.settings.discordFormatting = Object.assign({}, DEFAULT_DISCORD_FORMAT_RULES, savedSettings.discordFormatting);
+		this.settings.accounts = (savedSettings.accounts ?? []).map((account) => ({ ...account }));
+		this.settings.folderTemplates = (savedSettings.folderTemplates ?? []).map((entry) => ({ ...entry }));
+		this.settings.outbox = (savedSettings.outbox ?? []).map((entry) => ({ ...entry, postBody: { ...entry.postBody } }));
+		this.settings.scheduledPosts = (savedSettings.scheduledPosts ?? []).map((post) => ({ ...post }));
+		// Migrate the single pre-accounts API key into the first account.
+		if (this.settings.accounts.length === 0 && this.settings.apiKey) {
+			this.settings.accounts.push({
+				id: 'main',
+				name: 'Main',
+				apiKey: this.settings.apiKey,
+				cachedUserId: this.settings.cachedUserId,
+				folder: '',
+			});
+		}
+		// Ensure botApiUrl always uses default if empty or not set
 		if (!this.settings.botApiUrl || this.settings.botApiUrl.trim() === '') {
 			this.settings.botApiUrl = DEFAULT_SETTINGS.botApiUrl;
 		} else {
@@ -372,6 +1314,10 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 	async saveSettings() {
+		// Keep deprecated single-account fields in step with the default account for older plugin versions.
+		const defaultAccount = this.settings.accounts[0];
+		this.settings.apiKey = defaultAccount?.apiKey ?? '';
+		this.settings.cachedUserId = defaultAccount?.cachedUserId ?? '';
 		await this.saveData(this.settings);
 	}
 
@@ -379,17 +1325,36 @@ export default class MultimuseObsidian extends Plugin {
 		this.stopPolling();
 
 		const intervalMs = this.settings.pollInterval * 60 * 1000;
+		const startedAt = Date.now();
 		this.pollIntervalId = window.setInterval(() => {
+			this.nextPollAt = Date.now() + intervalMs;
 			void this.checkAllThreads();
 		}, intervalMs);
 
 		if (!opts?.deferInitialCheck) {
+			this.nextPollAt = startedAt + intervalMs;
 			void this.checkAllThreads();
 		} else {
+			this.nextPollAt = startedAt + 45_000;
 			window.setTimeout((): void => {
+				this.nextPollAt = startedAt + intervalMs;
 				void this.checkAllThreads();
 			}, 45_000);
 		}
+		this.updateStatusBar();
+	}
+
+	/** Turn background polling on or off and persist the choice. */
+	async setPollingEnabled(enabled: boolean): Promise<void> {
+		this.settings.enabled = enabled;
+		await this.saveSettings();
+		if (enabled) {
+			this.startPolling();
+			new Notice('Discord polling enabled');
+		} else {
+			this.stopPolling();
+			new Notice('Discord polling disabled');
+		}
 	}
 
 	/** Serialize background GETs so they do not stack many concurrent calls to the API host. */
@@ -417,24 +1382,111 @@ export default class MultimuseObsidian extends Plugin {
 		]);
 	}
 
-	private async apiPostJson(
-		path: string,
-		body: Record<string, unknown>
-	): Promise<RequestUrlResponse> {
-		return await requestUrl({
-			url: `${this.getBotApiUrl()}${path}`,
-			method: 'POST',
-			headers: this.getApiHeaders(),
-			body: JSON.stringify({ ...body, fast: true }),
-			throw: false
-		});
-	}
-
 	stopPolling() {
 		if (this.pollIntervalId !== null) {
 			window.clearInterval(this.pollIntervalId);
 			this.pollIntervalId = null;
 		}
+		this.nextPollAt = null;
+		this.updateStatusBar();
+	}
+
+	/** Active scenes whose turn property says it is your turn, alphabetically. */
+	getScenesAwaitingReply(): TFile[] {
+		return this.getActiveSceneFiles()
+			.filter((file) => {
+				const frontmatter = this.getFrontmatter(this.app.metadataCache.getFileCache(file));
+				return !!frontmatter && this.readRepliedState(frontmatter) === false;
+			})
+			.sort((a, b) => a.basename.localeCompare(b.basename, undefined, { sensitivity: 'base' }));
+	}
+
+	updateStatusBar(): void {
+		const el = this.statusBarEl;
+		if (!el) {
+			return;
+		}
+		el.empty();
+
+		const awaiting = this.getScenesAwaitingReply().length;
+		// A poll cancelled by Send as Muse leaves isPollRunning set until the next batch; require an in-flight run.
+		const polling = this.isPollRunning && this.pollRunPromise !== null;
+		const iconEl = el.createSpan({ cls: 'multimuse-status-icon' });
+		setIcon(iconEl, polling ? 'loader' : 'message-square');
+		el.createSpan({ text: polling ? ' Checking…' : ` ${awaiting} awaiting reply` });
+		el.toggleClass('is-your-turn', awaiting > 0);
+
+		const queued = this.settings.outbox.length;
+		if (queued > 0) {
+			el.createSpan({ text: ` · ${queued} queued`, cls: 'multimuse-status-queued' });
+		}
+
+		if (this.lastPollError) {
+			el.createSpan({ text: '!', cls: 'multimuse-status-error' });
+		}
+
+		const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+		const tooltip = [
+			`${awaiting} active scene(s) awaiting your reply`,
+			this.lastPollAt ? `Last poll: ${formatTime(this.lastPollAt)}` : 'Not polled yet',
+			this.settings.enabled && this.nextPollAt ? `Next poll: ${formatTime(this.nextPollAt)}` : 'Polling paused',
+		];
+		if (queued > 0) {
+			tooltip.push(`${queued} post(s) waiting in the outbox`);
+		}
+		if (this.lastPollError) {
+			tooltip.push(`Last poll failed: ${this.lastPollError}`);
+		}
+		el.setAttr('aria-label', tooltip.join('\n'));
+		el.setAttr('data-tooltip-position', 'top');
+	}
+
+	private showStatusBarMenu(evt: MouseEvent): void {
+		const menu = new Menu();
+		menu.addItem((item) => item
+			.setTitle('Check now')
+			.setIcon('refresh-cw')
+			.onClick(() => {
+				void this.checkAllThreads({ force: true });
+			}));
+		menu.addItem((item) => item
+			.setTitle(this.settings.enabled ? 'Pause polling' : 'Resume polling')
+			.setIcon(this.settings.enabled ? 'pause' : 'play')
+			.onClick(() => {
+				void this.setPollingEnabled(!this.settings.enabled);
+			}));
+
+		if (this.settings.outbox.length > 0) {
+			menu.addItem((item) => item
+				.setTitle(`Outbox (${this.settings.outbox.length})`)
+				.setIcon('inbox')
+				.onClick(() => {
+					new OutboxModal(this.app, this).open();
+				}));
+		}
+
+		if (this.lastPollError) {
+			menu.addSeparator();
+			menu.addItem((item) => item
+				.setTitle(`Last poll failed: ${this.lastPollError}`)
+				.setIcon('alert-triangle')
+				.setDisabled(true));
+		}
+
+		const awaiting = this.getScenesAwaitingReply();
+		menu.addSeparator();
+		if (awaiting.length === 0) {
+			menu.addItem((item) => item.setTitle('No scenes awaiting reply').setDisabled(true));
+		}
+		for (const file of awaiting) {
+			menu.addItem((item) => item
+				.setTitle(file.basename)
+				.setIcon('file-text')
+				.onClick(() => {
+					void this.app.workspace.getLeaf(false).openFile(file);
+				}));
+		}
+		menu.showAtMouseEvent(evt);
 	}
 
 	/**
@@ -453,20 +1505,74 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 	/**
-	 * Get headers for API requests, including Authorization header if API key is set.
-	 * @returns Headers object for requestUrl
+	 * Get an API client authenticated as an account.
+	 * @param account Account whose key to send (defaults to the first account)
 	 */
-	getApiHeaders(): Record<string, string> {
-		const headers: Record<string, string> = {
-			'Content-Type': 'application/json'
-		};
-		
-		// Add Authorization header if API key is configured
-		if (this.settings.apiKey && this.settings.apiKey.trim() !== '') {
-			headers['Authorization'] = `Bearer ${this.settings.apiKey.trim()}`;
+	getApiClient(account?: MultimuseAccount | null, opts?: { queued?: boolean }): MultimuseApiClient {
+		return new MultimuseApiClient({
+			baseUrl: this.getBotApiUrl(),
+			apiKey: (account ?? this.getDefaultAccount())?.apiKey ?? '',
+			// Poll-queue requests fail fast instead of retrying in their slot; the next poll tries again
+			maxRetries: opts?.queued ? 0 : undefined,
+		});
+	}
+
+	/** Accounts with an API key configured, default first. */
+	getAccounts(): MultimuseAccount[] {
+		return this.settings.accounts.filter((account) => account.apiKey.trim() !== '');
+	}
+
+	getDefaultAccount(): MultimuseAccount | null {
+		return this.getAccounts()[0] ?? null;
+	}
+
+	hasApiKey(): boolean {
+		return this.getAccounts().length > 0;
+	}
+
+	/** Find an account by its name or id (case-insensitive), as written in the Account property. */
+	findAccount(nameOrId: string): MultimuseAccount | null {
+		const wanted = nameOrId.trim().toLowerCase();
+		if (!wanted) return null;
+		return this.getAccounts().find((account) =>
+			account.id.toLowerCase() === wanted || account.name.trim().toLowerCase() === wanted
+		) ?? null;
+	}
+
+	/**
+	 * Account a scene posts and polls as: its Account property, else the account whose folder
+	 * contains the note (deepest folder wins), else the default account.
+	 */
+	resolveAccountForScene(path: string, frontmatter?: FrontmatterData | null): MultimuseAccount | null {
+		const named = frontmatterValueToString(frontmatter?.[this.prop('account')]);
+		if (named) {
+			const account = this.findAccount(named);
+			if (account) return account;
+			console.warn(`[MultimuseObsidian] ${path}: Unknown account "${named}" - using folder/default account`);
+		}
+
+		let best: MultimuseAccount | null = null;
+		let bestDepth = -1;
+		for (const account of this.getAccounts()) {
+			const folder = this.resolveSceneFolderInput(account.folder);
+			if (!account.folder.trim() || !path.startsWith(folder + '/')) continue;
+			if (folder.length > bestDepth) {
+				best = account;
+				bestDepth = folder.length;
+			}
 		}
-		
-		return headers;
+		return best ?? this.getDefaultAccount();
+	}
+
+	/** Ask which account to use when more than one is configured. */
+	async chooseAccount(title: string): Promise<MultimuseAccount | null> {
+		const accounts = this.getAccounts();
+		if (accounts.length <= 1) {
+			return accounts[0] ?? null;
+		}
+		const labels = accounts.map((account) => account.name || account.id);
+		const index = await this.showSuggester(labels, accounts, title);
+		return index === null || index < 0 ? null : accounts[index];
 	}
 
 	async registerScene(params: {
@@ -477,9 +1583,10 @@ export default class MultimuseObsidian extends Plugin {
 		participants: number;
 		guildId?: string | null;
 		isActive?: boolean;
-	}): Promise<RequestUrlResponse> {
+		account?: MultimuseAccount | null;
+	}): Promise<void> {
 		const characters = sortNamesAlphabetically(params.characters);
-		const body: Record<string, unknown> = {
+		const body: RegisterSceneRequest = {
 			thread_id: params.threadId,
 			user_id: params.userId,
 			scene_path: params.scenePath,
@@ -491,13 +1598,7 @@ export default class MultimuseObsidian extends Plugin {
 			body.guild_id = params.guildId;
 		}
 
-		return await requestUrl({
-			url: `${this.getBotApiUrl()}/api/v1/scenes/create`,
-			method: 'POST',
-			headers: this.getApiHeaders(),
-			body: JSON.stringify(body),
-			throw: false,
-		});
+		await this.getApiClient(params.account).registerScene(body);
 	}
 
 	/** @deprecated Use registerScene — kept as alias for internal callers migrating off threads/track-only flows. */
@@ -509,22 +1610,17 @@ export default class MultimuseObsidian extends Plugin {
 		scenePath?: string;
 		guildId?: string | null;
 		characters?: string[];
-	}): Promise<RequestUrlResponse> {
+		account?: MultimuseAccount | null;
+	}): Promise<void> {
 		if (!params.scenePath) {
-			const body: Record<string, unknown> = {
+			await this.getApiClient(params.account).trackThread({
 				thread_id: params.threadId,
 				user_id: params.userId,
 				muse_name: params.museName,
 				participants: params.participants,
-			};
-			if (params.guildId) body.guild_id = params.guildId;
-			return await requestUrl({
-				url: `${this.getBotApiUrl()}/api/v1/threads/track`,
-				method: 'POST',
-				headers: this.getApiHeaders(),
-				body: JSON.stringify(body),
-				throw: false,
+				guild_id: params.guildId || undefined,
 			});
+			return;
 		}
 
 		return this.registerScene({
@@ -534,6 +1630,60 @@ export default class MultimuseObsidian extends Plugin {
 			characters: params.characters?.length ? params.characters : [params.museName],
 			participants: params.participants,
 			guildId: params.guildId,
+			account: params.account,
+		});
+	}
+
+	/** Configured frontmatter property name for a scene field (falls back to the default name). */
+	prop(key: ScenePropertyKey): string {
+		const configured = this.settings.propertyNames[key];
+		return configured && configured.trim() ? configured.trim() : DEFAULT_PROPERTY_NAMES[key];
+	}
+
+	/** Turn properties written to scene notes, in frontmatter order. */
+	getTurnPropertyKeys(): ('replied' | 'myTurn')[] {
+		switch (this.settings.turnProperty) {
+			case 'myTurn':
+				return ['myTurn'];
+			case 'both':
+				return ['replied', 'myTurn'];
+			default:
+				return ['replied'];
+		}
+	}
+
+	/** Frontmatter values for a replied state, honoring the Replied? / My Turn? setting. */
+	buildTurnUpdates(replied: boolean): Record<string, boolean> {
+		const updates: Record<string, boolean> = {};
+		for (const key of this.getTurnPropertyKeys()) {
+			updates[this.prop(key)] = key === 'myTurn' ? !replied : replied;
+		}
+		return updates;
+	}
+
+	/**
+	 * Replied state as recorded in the note: Replied? when the setting writes it, else the
+	 * inverse of My Turn?. Null when neither property holds a boolean.
+	 */
+	readRepliedState(frontmatter: FrontmatterData): boolean | null {
+		for (const key of this.getTurnPropertyKeys()) {
+			const value = parseFrontmatterBoolean(frontmatter[this.prop(key)]);
+			if (value !== null) {
+				return key === 'myTurn' ? !value : value;
+			}
+		}
+		return null;
+	}
+
+	/** True when a written turn property is missing or disagrees with `replied` (e.g. after switching modes). */
+	private turnPropertiesOutOfSync(frontmatter: FrontmatterData, replied: boolean): boolean {
+		return this.getTurnPropertyKeys().some((key) => {
+			const value = parseFrontmatterBoolean(frontmatter[this.prop(key)]);
+			if (value === null) {
+				// Legacy notes without Replied? count as "not replied"; only My Turn? must be added.
+				return key === 'myTurn' || replied;
+			}
+			return (key === 'myTurn' ? !value : value) !== replied;
 		});
 	}
 
@@ -545,13 +1695,13 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 	/**
-	 * Handle API response errors, especially authentication errors.
-	 * @param response The response object from requestUrl
+	 * Handle API errors, especially authentication errors.
+	 * @param error Error thrown by the API client
 	 * @param context Context string for logging
 	 * @returns true if error was handled, false otherwise
 	 */
-	handleApiError(response: RequestUrlResponse, context: string): boolean {
-		if (response.status === 401) {
+	handleApiError(error: unknown, context: string): boolean {
+		if (isApiError(error) && error.isAuthError) {
 			const errorMsg = 'API authentication failed. Please check your API key in settings.';
 			console.error(`[MultimuseObsidian] ${context}: ${errorMsg}`);
 			new Notice(errorMsg);
@@ -562,61 +1712,58 @@ export default class MultimuseObsidian extends Plugin {
 
 	/**
 	 * Get user ID from API key (cached or fetched fresh).
+	 * @param account Account to resolve (defaults to the first account)
 	 * @returns User ID string, or null if not available
 	 */
-	async getUserIdFromApiKey(): Promise<string | null> {
-		// If we have a cached user ID and API key is set, use it
-		if (this.settings.cachedUserId && this.settings.apiKey) {
-			return this.settings.cachedUserId;
-		}
-		
+	async getUserIdFromApiKey(account?: MultimuseAccount | null): Promise<string | null> {
+		const target = account ?? this.getDefaultAccount();
+
 		// If no API key, can't get user ID
-		if (!this.settings.apiKey || this.settings.apiKey.trim() === '') {
+		if (!target || target.apiKey.trim() === '') {
 			return null;
 		}
+
+		// If we have a cached user ID and API key is set, use it
+		if (target.cachedUserId) {
+			return target.cachedUserId;
+		}
 		
 		// Fetch user ID from API
 		try {
-			const url = `${this.getBotApiUrl()}/api/v1/auth/me`;
-			const response = await requestUrl({
-				url: url,
-				method: 'GET',
-				headers: this.getApiHeaders()
-			});
-			
-			if (response.status === 200) {
-				const data = parseJson<AuthMeResponse>(response.text);
-				const userId = data.user_id;
-				if (userId) {
-					// Cache the user ID
-					this.settings.cachedUserId = String(userId);
+			const data = await this.getApiClient(target).getMe();
+			const userId = data.user_id;
+			if (userId) {
+				// Cache the user ID
+				target.cachedUserId = String(userId);
+				if (target === this.settings.accounts[0]) {
 					// Also update deprecated fields for backward compatibility
 					this.settings.ownerId = String(userId);
 					this.settings.userIds = '';
-					await this.saveSettings();
-					return this.settings.cachedUserId;
-				}
-			} else {
-				if (!this.handleApiError(response, 'getUserIdFromApiKey')) {
-					console.error(`[MultimuseObsidian] Failed to get user ID from API: ${response.status}`);
 				}
+				await this.saveSettings();
+				return target.cachedUserId;
 			}
 		} catch (error) {
-			console.error('[MultimuseObsidian] Error fetching user ID from API key:', error);
+			if (!this.handleApiError(error, `getUserIdFromApiKey (${target.name})`)) {
+				console.error('[MultimuseObsidian] Error fetching user ID from API key:', error);
+			}
 		}
 		
 		return null;
 	}
 
 	/**
-	 * Collect all configured user IDs (now just from API key).
-	 * @returns Array of user ID numbers
+	 * Collect the user IDs to query for an account (defaults to the first account).
+	 * @returns Array of user ID strings
 	 */
-	async getAllUserIds(): Promise<string[]> {
-		const userId = await this.getUserIdFromApiKey();
+	async getAllUserIds(account?: MultimuseAccount | null): Promise<string[]> {
+		const userId = await this.getUserIdFromApiKey(account);
 		if (userId) {
 			return [userId];
 		}
+		if (account && account !== this.settings.accounts[0]) {
+			return [];
+		}
 		// Fallback to old settings for backward compatibility
 		const userIdSet = new Set<string>();
 		if (this.settings.ownerId) {
@@ -631,11 +1778,11 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 	/**
-	 * Get the primary user ID (from API key).
-	 * @returns Primary user ID as string, or null if not configured
+	 * Get the Discord user ID for an account (from its API key).
+	 * @returns User ID as string, or null if not configured
 	 */
-	async getPrimaryUserId(): Promise<string | null> {
-		return await this.getUserIdFromApiKey();
+	async getPrimaryUserId(account?: MultimuseAccount | null): Promise<string | null> {
+		return await this.getUserIdFromApiKey(account);
 	}
 
 	/**
@@ -644,7 +1791,8 @@ export default class MultimuseObsidian extends Plugin {
 	 */
 	async getMusesForUserIds(
 		userIds: string[],
-		opts?: { forceRefresh?: boolean; backgroundRefresh?: boolean }
+		opts?: { forceRefresh?: boolean; backgroundRefresh?: boolean },
+		account?: MultimuseAccount | null
 	): Promise<MuseInfo[]> {
 		const primaryId = userIds[0];
 		const cached = primaryId ? this.museCache.get(primaryId) : undefined;
@@ -654,16 +1802,87 @@ export default class MultimuseObsidian extends Plugin {
 			}
 			return cached;
 		}
-		return this.fetchMusesListFromApi(userIds);
+		return this.fetchMusesListFromApi(userIds, account);
+	}
+
+	/**
+	 * Muses a character name can mean: the muse pinned by id for this scene (survives renames on
+	 * Discord), otherwise exact names (case-insensitive), otherwise triggers. Names are never matched
+	 * by substring; more than one result means the user has to choose (see chooseMuseMatch).
+	 */
+	findMuseMatches(muses: MuseInfo[], selectedMuse: string, pinnedId?: string | null): MuseInfo[] {
+		if (pinnedId) {
+			const pinned = muses.find((m) => m.muse_id && String(m.muse_id) === pinnedId);
+			if (pinned) {
+				return [pinned];
+			}
+			console.warn(`[MultimuseObsidian] Pinned muse id ${pinnedId} for "${selectedMuse}" not found; matching by name.`);
+		}
+		const wanted = selectedMuse.toLowerCase().trim();
+		const exact = muses.filter((m) => m.name.toLowerCase().trim() === wanted);
+		if (exact.length > 0) {
+			return exact;
+		}
+		// Triggers may carry punctuation ("bel:", "[bel]") and list several aliases
+		const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, '');
+		const wantedKey = normalize(wanted);
+		if (!wantedKey) {
+			return [];
+		}
+		return muses.filter((m) => (m.trigger || '').split(/[,\s]+/).some((trigger) => normalize(trigger) === wantedKey));
+	}
+
+	/**
+	 * The muse to post as from findMuseMatches: the only candidate, or the user's pick when several match.
+	 * @returns undefined when nothing matched, null when the user cancelled the choice
+	 */
+	async chooseMuseMatch(candidates: MuseInfo[], selectedMuse: string): Promise<MuseInfo | null | undefined> {
+		if (candidates.length <= 1) {
+			return candidates[0];
+		}
+		const options = this.buildMusePickerOptions(candidates).map((option) => ({
+			...option,
+			detail: [option.detail, option.value.muse_id ? `id ${option.value.muse_id}` : ''].filter(Boolean).join(' · '),
+		}));
+		return this.showPicker(options, `Several muses match "${selectedMuse}" – choose one`);
+	}
+
+	/**
+	 * Muse id pinned for a character in the scene's Muse ID property: either a plain id (scenes with
+	 * one character) or a map of character name to id.
+	 */
+	getPinnedMuseId(frontmatter: FrontmatterData | null, selectedMuse: string): string | null {
+		if (!frontmatter) {
+			return null;
+		}
+		const raw = frontmatter[this.prop('museId')];
+		if (typeof raw === 'string' || typeof raw === 'number') {
+			const id = String(raw).trim();
+			return id && this.getSortedCharacterNames(frontmatter).length <= 1 ? id : null;
+		}
+		if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+			const wanted = selectedMuse.toLowerCase().trim();
+			const entry = Object.entries(raw as Record<string, unknown>).find(([name]) => name.toLowerCase().trim() === wanted);
+			const id = entry ? frontmatterValueToString(entry[1]).trim() : '';
+			return id || null;
+		}
+		return null;
 	}
 
-	findMuseMatch(muses: MuseInfo[], selectedMuse: string): MuseInfo | undefined {
-		const selectedLower = selectedMuse.toLowerCase().trim();
-		return muses.find(m => {
-			const museLower = m.name.toLowerCase().trim();
-			return museLower === selectedLower
-				|| museLower.includes(selectedLower)
-				|| selectedLower.includes(museLower);
+	/** Pin the muse chosen for a character so the scene keeps posting as it (see getPinnedMuseId). */
+	async pinSceneMuseId(file: TFile, selectedMuse: string, museId: string): Promise<void> {
+		const key = this.prop('museId');
+		await this.editFrontmatter(file, (frontmatter) => {
+			if (this.getSortedCharacterNames(frontmatter).length <= 1) {
+				frontmatter[key] = museId;
+				return;
+			}
+			const current = frontmatter[key];
+			const pins = current && typeof current === 'object' && !Array.isArray(current)
+				? { ...(current as Record<string, unknown>) }
+				: {};
+			pins[selectedMuse] = museId;
+			frontmatter[key] = pins;
 		});
 	}
 
@@ -671,29 +1890,16 @@ export default class MultimuseObsidian extends Plugin {
 		threadId: string,
 		userId: string,
 		muse: MuseInfo,
-		museName: string
+		museName: string,
+		account?: MultimuseAccount | null
 	): Promise<{ header: string; footer: string }> {
-		const params = new URLSearchParams({
-			thread_id: threadId,
-			user_id: userId,
-		});
-		if (muse.muse_id) {
-			params.set('muse_id', muse.muse_id);
-		}
-		if (museName) {
-			params.set('muse_name', museName);
-		}
 		try {
-			const response = await requestUrl({
-				url: `${this.getBotApiUrl()}/api/v1/muses/wrappers/resolve?${params.toString()}`,
-				method: 'GET',
-				headers: this.getApiHeaders(),
-				throw: false,
+			const data = await this.getApiClient(account).resolveMuseWrappers({
+				threadId,
+				userId,
+				museId: muse.muse_id,
+				museName,
 			});
-			if (response.status !== 200) {
-				return { header: '', footer: '' };
-			}
-			const data = parseJson<MuseWrappersResolveResponse>(response.text);
 			return {
 				header: (data.header ?? '').trim(),
 				footer: (data.footer ?? '').trim(),
@@ -704,25 +1910,19 @@ export default class MultimuseObsidian extends Plugin {
 		}
 	}
 
-	async fetchMusesListFromApi(userIds: string[]): Promise<MuseInfo[]> {
-		if (!this.settings.apiKey || userIds.length === 0) {
+	async fetchMusesListFromApi(userIds: string[], account?: MultimuseAccount | null): Promise<MuseInfo[]> {
+		if (!this.hasApiKey() || userIds.length === 0) {
 			return [];
 		}
-		const queryParam = `user_ids=${userIds.join(',')}`;
-		const url = `${this.getBotApiUrl()}/api/v1/muses/list?${queryParam}`;
-		const response = await requestUrl({
-			url: url,
-			method: 'GET',
-			headers: this.getApiHeaders()
-		});
-		if (response.status !== 200) {
-			if (!this.handleApiError(response, 'fetchMusesListFromApi')) {
-				console.error(`Failed to fetch muses: ${response.status} - ${response.text}`);
+		let muses: MuseInfo[];
+		try {
+			muses = sortMusesAlphabetically(await this.getApiClient(account).listMuses(userIds));
+		} catch (error) {
+			if (!this.handleApiError(error, 'fetchMusesListFromApi')) {
+				console.error(`Failed to fetch muses: ${getErrorMessage(error)}`);
 			}
 			return [];
 		}
-		const data = parseJson<MusesListResponse>(response.text);
-		const muses: MuseInfo[] = sortMusesAlphabetically(data.muses || []);
 		for (const userId of userIds) {
 			this.museCache.set(String(userId), muses);
 		}
@@ -730,28 +1930,26 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 	async syncMuses(): Promise<void> {
-		/**Sync muse names from bot API for all configured user IDs.*/
-		if (!this.settings.apiKey) {
-			return;
-		}
-
-		try {
-			const userIds = await this.getAllUserIds();
-			if (userIds.length === 0) {
-				return;
-			}
+		/**Sync muse names from bot API for every configured account (museCache is keyed by user ID).*/
+		for (const account of this.getAccounts()) {
+			try {
+				const userIds = await this.getAllUserIds(account);
+				if (userIds.length === 0) {
+					continue;
+				}
 
-			const muses = await this.fetchMusesListFromApi(userIds);
-			if (muses.length > 0) {
-				console.log(`[MultimuseObsidian] Synced ${muses.length} muse(s) for ${userIds.length} user(s)`);
+				const muses = await this.fetchMusesListFromApi(userIds, account);
+				if (muses.length > 0) {
+					console.log(`[MultimuseObsidian] Synced ${muses.length} muse(s) for account ${account.name}`);
+				}
+			} catch (error) {
+				console.error(`Error syncing muses for account ${account.name}:`, error);
 			}
-		} catch (error) {
-			console.error('Error syncing muses:', error);
 		}
 	}
 
 	async checkAllThreads(opts?: { force?: boolean }) {
-		if (!this.settings.enabled || !this.settings.apiKey) {
+		if (!this.settings.enabled || !this.hasApiKey()) {
 			return;
 		}
 
@@ -763,52 +1961,135 @@ export default class MultimuseObsidian extends Plugin {
 			if (this.pollRunPromise === run) {
 				this.pollRunPromise = null;
 			}
+			this.refreshSceneDashboards();
+			this.updateStatusBar();
+			this.flushTurnAlerts();
+		}
+	}
+
+	/** Record a scene that just became your turn; delivered now, at the end of the poll (digest), or after quiet hours. */
+	queueTurnAlert(file: TFile, frontmatter: FrontmatterData): void {
+		if (!this.settings.turnAlerts) {
+			return;
+		}
+		if (parseFrontmatterBoolean(frontmatter[this.prop('muteAlerts')]) === true) {
+			return;
+		}
+		this.pendingTurnAlerts.set(file.path, {
+			path: file.path,
+			sceneName: file.basename,
+			roleplay: this.extractRoleplayFromPath(file.parent?.path ?? ''),
+		});
+		// Digest mode collects the whole batch; checkAllThreads flushes when the poll finishes.
+		if (this.settings.turnAlertsDigest && this.pollRunPromise !== null) {
+			return;
+		}
+		this.flushTurnAlerts();
+	}
+
+	/** Deliver held your-turn alerts unless quiet hours are in effect. */
+	flushTurnAlerts(): void {
+		if (this.pendingTurnAlerts.size === 0 || this.isQuietHours(new Date())) {
+			return;
+		}
+		const alerts = Array.from(this.pendingTurnAlerts.values());
+		this.pendingTurnAlerts.clear();
+
+		const describe = (alert: TurnAlert) => alert.roleplay ? `${alert.sceneName} (${alert.roleplay})` : alert.sceneName;
+		if (this.settings.turnAlertsDigest && alerts.length > 1) {
+			const lines = alerts.map((alert) => `• ${describe(alert)}`);
+			this.showTurnAlert(`Your turn in ${alerts.length} scenes`, lines.join('\n'), null);
+			return;
+		}
+		for (const alert of alerts) {
+			this.showTurnAlert('Your turn', describe(alert), alert.path);
+		}
+	}
+
+	private showTurnAlert(title: string, body: string, scenePath: string | null): void {
+		const openScene = () => {
+			if (!scenePath) return;
+			const file = this.app.vault.getAbstractFileByPath(scenePath);
+			if (file instanceof TFile) {
+				void this.app.workspace.getLeaf(false).openFile(file);
+			}
+		};
+
+		const notice = new Notice(`${title}: ${body}`, 10000);
+		if (scenePath) {
+			notice.noticeEl.addClass('mod-clickable');
+			notice.noticeEl.onclick = openScene;
+		}
+
+		if (this.settings.turnAlertsDesktop && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+			const osNotification = new Notification(`MultiMuse: ${title}`, { body });
+			osNotification.onclick = () => {
+				window.focus();
+				openScene();
+			};
+		}
+	}
+
+	/** True when `now` falls inside the configured quiet hours (ranges may wrap past midnight). */
+	isQuietHours(now: Date): boolean {
+		if (!this.settings.quietHoursEnabled) {
+			return false;
 		}
+		const start = parseClockMinutes(this.settings.quietHoursStart);
+		const end = parseClockMinutes(this.settings.quietHoursEnd);
+		if (start === null || end === null || start === end) {
+			return false;
+		}
+		const minutes = now.getHours() * 60 + now.getMinutes();
+		return start < end
+			? minutes >= start && minutes < end
+			: minutes >= start || minutes < end;
 	}
 
 	async checkAllThreadsViaBotApi(opts?: { force?: boolean }): Promise<void> {
-		/**Poll tracked thread paths from the API, then active vault scenes not in the tracker map.*/
-		if (!this.settings.apiKey) {
+		/**Poll tracked thread paths from the API (per account), then active vault scenes not in the tracker map.*/
+		if (!this.hasApiKey()) {
 			return;
 		}
 
 		const generation = this.pollGeneration;
 		this.isPollRunning = true;
+		this.updateStatusBar();
 
 		try {
-			// Get primary user ID for linked scenes query
-			const primaryUserIdStr = await this.getPrimaryUserId();
-			if (!primaryUserIdStr) {
-				return;
-			}
-			const primaryUserId = parseInt(primaryUserIdStr);
-			if (isNaN(primaryUserId)) {
-				return;
-			}
-
-			// Get all Discord-side tracked threads from the current API.
-			const trackedUrl = `${this.getBotApiUrl()}/api/v1/threads/tracked?user_id=${primaryUserId}`;
-			const trackedResponse = await this.enqueuePollGet(() => requestUrl({
-				url: trackedUrl,
-				method: 'GET',
-				headers: this.getApiHeaders(),
-				throw: false
-			}));
-
-			if (trackedResponse.status !== 200) {
-				if (!this.handleApiError(trackedResponse, 'checkAllThreadsViaBotApi')) {
-					console.error(`[MultimuseObsidian] Failed to fetch tracked threads: ${trackedResponse.status} - ${trackedResponse.text}`);
+			// Get all Discord-side tracked threads for every account from the current API.
+			const scenePathMap = new Map<string, { thread: TrackedThread; account: MultimuseAccount; userId: string }>();
+			const accountErrors: string[] = [];
+			for (const account of this.getAccounts()) {
+				const userId = await this.getPrimaryUserId(account);
+				if (!userId || isNaN(parseInt(userId))) {
+					accountErrors.push(`${account.name}: could not get user ID from API key`);
+					continue;
+				}
+				const trackedThreads = await this.enqueuePollGet(() => this.fetchTrackedThreads(
+					userId,
+					`checkAllThreadsViaBotApi (${account.name})`,
+					account,
+					{ queued: true }
+				));
+				if (!trackedThreads) {
+					accountErrors.push(`${account.name}: ${this.lastTrackedThreadsError ?? 'request failed'}`);
+					continue;
 				}
+				for (const [scenePath, thread] of this.buildScenePathMap(trackedThreads)) {
+					scenePathMap.set(scenePath, { thread, account, userId });
+				}
+			}
+			if (accountErrors.length === this.getAccounts().length) {
+				this.lastPollError = accountErrors.join('; ');
 				return;
 			}
-
-			const trackedData = parseJson<TrackedThreadsResponse>(trackedResponse.text);
-			const trackedThreads = trackedData.threads || [];
-			const scenePathMap = this.buildScenePathMap(trackedThreads);
+			this.lastPollError = accountErrors.length > 0 ? accountErrors.join('; ') : null;
+			this.lastPollAt = Date.now();
 			let updatedCount = 0;
 
 			// Phase 1 (API-first): one scene at a time so Send as Muse can jump the queue sooner.
-			for (const [scenePath, threadInfo] of scenePathMap) {
+			for (const [scenePath, { thread: threadInfo, account, userId }] of scenePathMap) {
 				if (generation !== this.pollGeneration) {
 					break;
 				}
@@ -836,9 +2117,10 @@ export default class MultimuseObsidian extends Plugin {
 					const updated = await this.queryTrackedSceneByThreadId(
 						file,
 						threadInfo.thread_id,
-						primaryUserIdStr,
+						userId,
 						'checkAllThreadsViaBotApi',
-						opts
+						opts,
+						account
 					);
 					if (updated) {
 						updatedCount++;
@@ -874,7 +2156,7 @@ export default class MultimuseObsidian extends Plugin {
 							continue;
 						}
 
-						const link = frontmatter['Link'];
+						const link = frontmatter[this.prop('link')];
 						if (typeof link !== 'string') {
 							continue;
 						}
@@ -906,6 +2188,7 @@ export default class MultimuseObsidian extends Plugin {
 			}
 		} catch (error) {
 			console.error(`[MultimuseObsidian] Error checking all threads:`, error);
+			this.lastPollError = getErrorMessage(error);
 		} finally {
 			if (generation === this.pollGeneration) {
 				this.isPollRunning = false;
@@ -913,6 +2196,24 @@ export default class MultimuseObsidian extends Plugin {
 		}
 	}
 
+	/** Fetch the Discord-side thread tracker for a user. Returns null when the API call fails. */
+	async fetchTrackedThreads(
+		userId: string,
+		errorContext: string,
+		account?: MultimuseAccount | null,
+		opts?: { queued?: boolean }
+	): Promise<TrackedThread[] | null> {
+		try {
+			return await this.getApiClient(account, opts).getTrackedThreads(userId);
+		} catch (error) {
+			this.lastTrackedThreadsError = getErrorMessage(error);
+			if (!this.handleApiError(error, errorContext)) {
+				console.error('[MultimuseObsidian] Failed to fetch tracked threads:', error);
+			}
+			return null;
+		}
+	}
+
 	buildScenePathMap(trackedThreads: TrackedThread[]): Map<string, TrackedThread> {
 		const scenePathMap = new Map<string, TrackedThread>();
 		for (const thread of trackedThreads) {
@@ -931,7 +2232,8 @@ export default class MultimuseObsidian extends Plugin {
 		threadId: string | number,
 		userId: string,
 		errorContext: string,
-		opts?: { force?: boolean }
+		opts?: { force?: boolean },
+		account?: MultimuseAccount | null
 	): Promise<boolean> {
 		if (!opts?.force) {
 			const now = Date.now();
@@ -953,25 +2255,16 @@ export default class MultimuseObsidian extends Plugin {
 			return false;
 		}
 
-		const charactersParam = characters.join(',');
+		const client = this.getApiClient(account, { queued: true });
 		const participants = this.parseParticipantsFromFrontmatter(frontmatter);
-		const queryUrl = `${this.getBotApiUrl()}/api/v1/scenes/query?thread_id=${threadId}&characters=${encodeURIComponent(charactersParam)}&user_id=${userId}&participants=${participants}`;
-
-		const queryResponse = await this.enqueuePollGet(() => requestUrl({
-			url: queryUrl,
-			method: 'GET',
-			headers: this.getApiHeaders(),
-			throw: false
-		}));
-
-		if (queryResponse.status !== 200) {
-			if (queryResponse.status === 401) {
-				this.handleApiError(queryResponse, `${errorContext} - query scene`);
-			}
+		let queryData: SceneQueryResponse;
+		try {
+			queryData = await this.enqueuePollGet(() => client.queryScene({ threadId, userId, characters, participants }));
+		} catch (error) {
+			this.handleApiError(error, `${errorContext} - query scene`);
 			return false;
 		}
 
-		const queryData = parseJson<SceneQueryResponse>(queryResponse.text);
 		if (!queryData.tracked || !queryData.state) {
 			return false;
 		}
@@ -1017,7 +2310,7 @@ export default class MultimuseObsidian extends Plugin {
 			return false;
 		}
 
-		const link = frontmatter['Link'];
+		const link = frontmatter[this.prop('link')];
 		if (typeof link !== 'string') {
 			return false;
 		}
@@ -1037,40 +2330,34 @@ export default class MultimuseObsidian extends Plugin {
 		}
 
 		try {
-			const charactersParam = characters.join(',');
-			// Use primary user ID for query
-			const primaryUserId = await this.getPrimaryUserId();
+			// Query as the scene's account (Account property, folder default, or first account)
+			const account = this.resolveAccountForScene(file.path, frontmatter);
+			const primaryUserId = await this.getPrimaryUserId(account);
 			if (!primaryUserId) {
 				return false;
 			}
-			const url = `${this.getBotApiUrl()}/api/v1/scenes/query?thread_id=${threadId}&characters=${encodeURIComponent(charactersParam)}&user_id=${primaryUserId}&participants=${this.parseParticipantsFromFrontmatter(frontmatter)}`;
-
-			const response = await this.enqueuePollGet(() => requestUrl({
-				url: url,
-				method: 'GET',
-				headers: this.getApiHeaders(),
-				throw: false
-			}));
+			const client = this.getApiClient(account, { queued: true });
+			const query = {
+				threadId,
+				userId: primaryUserId,
+				characters,
+				participants: this.parseParticipantsFromFrontmatter(frontmatter),
+			};
 
-			if (response.status !== 200) {
-				if (!this.handleApiError(response, `querySceneState for ${file.path}`)) {
-					console.error(`[MultimuseObsidian] API error for ${file.path}: ${response.status} - ${response.text}`);
+			let data: SceneQueryResponse;
+			try {
+				data = await this.enqueuePollGet(() => client.queryScene(query));
+			} catch (error) {
+				if (!this.handleApiError(error, `querySceneState for ${file.path}`)) {
+					console.error(`[MultimuseObsidian] API error for ${file.path}: ${getErrorMessage(error)}`);
 				}
 				return false;
 			}
 
-			const data = parseJson<SceneQueryResponse>(response.text);
-
 			if ((!data.tracked || !data.state) && this.settings.obsidianSourceOfTruth && !opts?.skipMetadataSync) {
 				await this.syncSceneMetadataToApi(file, { frontmatter });
-				const retryResponse = await this.enqueuePollGet(() => requestUrl({
-					url: url,
-					method: 'GET',
-					headers: this.getApiHeaders(),
-					throw: false,
-				}));
-				if (retryResponse.status === 200) {
-					const retryData = parseJson<SceneQueryResponse>(retryResponse.text);
+				const retryData = await this.enqueuePollGet(() => client.queryScene(query)).catch((): null => null);
+				if (retryData) {
 					if (retryData.tracked && retryData.state) {
 						const retryReplied = retryData.state.replied ?? retryData.state.is_from_character;
 						if (retryReplied !== undefined && retryReplied !== null) {
@@ -1128,22 +2415,41 @@ export default class MultimuseObsidian extends Plugin {
 			return false;
 		}
 
-		// Update Replied? field - normalize boolean values for comparison
-		const currentRepliedRaw = frontmatter['Replied?'];
-		// Handle both boolean and string values
-		const currentReplied = currentRepliedRaw === true || currentRepliedRaw === 'true' || currentRepliedRaw === 'True';
+		// Update Replied? / My Turn? - normalize boolean values for comparison
+		const recordedReplied = this.readRepliedState(frontmatter);
+		const currentReplied = recordedReplied ?? false;
 		// true = you've replied (no need to reply), false = need to reply
 		const shouldBeReplied = repliedRaw === true || repliedRaw === 'true';
 
 		console.log(`[MultimuseObsidian] ${file.basename}: Current Replied?=${currentReplied}, API replied=${repliedRaw}, shouldBeReplied=${shouldBeReplied}`);
 
+		let updates: FrontmatterUpdates = {};
 		// Always apply API state so Replied? unchecks when someone replies back (your turn again)
-		if (currentReplied !== shouldBeReplied) {
+		if (currentReplied !== shouldBeReplied || this.turnPropertiesOutOfSync(frontmatter, shouldBeReplied)) {
 			console.log(`[MultimuseObsidian] ${file.basename}: Updated Replied? to ${shouldBeReplied}`);
-			await this.updateFrontmatter(file, 'Replied?', shouldBeReplied);
+			updates = this.buildTurnUpdates(shouldBeReplied);
+		}
+
+		// Optional activity properties (each toggled in settings); only written when they change.
+		const activityUpdates = this.buildActivityUpdates(state);
+		for (const [key, value] of Object.entries(activityUpdates)) {
+			if (frontmatterValueToString(frontmatter[key]) !== frontmatterValueToString(value)) {
+				updates[key] = value;
+			}
+		}
+
+		if (Object.keys(updates).length > 0) {
+			await this.updateFrontmatter(file, updates);
 			updated = true;
 		}
 
+		if (recordedReplied === true && !shouldBeReplied) {
+			this.queueTurnAlert(file, frontmatter);
+			if (this.settings.autoPullThreadLog) {
+				void this.pullThreadLog(file, { background: true });
+			}
+		}
+
 
 
 		// Do NOT overwrite Participants from API/thread state. The plugin uses thread tracker
@@ -1154,6 +2460,21 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 
+	/** Last Activity / My Last Post / Posts Since Mine values from scene state, for the enabled toggles. */
+	buildActivityUpdates(state: SceneState): Record<string, string | number> {
+		const updates: Record<string, string | number> = {};
+		if (this.settings.trackLastActivity && state.timestamp) {
+			updates[this.prop('lastActivity')] = apiTimestampToFrontmatter(state.timestamp);
+		}
+		if (this.settings.trackMyLastPost && state.your_last_post) {
+			updates[this.prop('myLastPost')] = apiTimestampToFrontmatter(state.your_last_post);
+		}
+		if (this.settings.trackPostsSinceMine && typeof state.posted_since_count === 'number') {
+			updates[this.prop('postsSinceMine')] = state.posted_since_count;
+		}
+		return updates;
+	}
+
 	async handleSceneFileChange(file: TFile): Promise<void> {
 		/**Handle scene file creation/modification - debounced so autosave does not flood the API.*/
 		if (this.sceneCreationInProgress) {
@@ -1164,7 +2485,7 @@ export default class MultimuseObsidian extends Plugin {
 			return;
 		}
 
-		if (!this.settings.apiKey || !this.settings.enabled) {
+		if (!this.hasApiKey() || !this.settings.enabled) {
 			return;
 		}
 
@@ -1238,16 +2559,17 @@ export default class MultimuseObsidian extends Plugin {
 	 * calls the API when it has changed.
 	 */
 	async syncSceneActiveStatusToApi(file: TFile, cache: { frontmatter?: Record<string, unknown> }): Promise<void> {
-		const link = cache.frontmatter?.['Link'];
+		const link = cache.frontmatter?.[this.prop('link')];
 		if (!link) return; // No Link = not a tracked scene
 
-		const primaryUserId = await this.getPrimaryUserId();
+		const account = this.resolveAccountForScene(file.path, cache.frontmatter);
+		const primaryUserId = await this.getPrimaryUserId(account);
 		if (!primaryUserId) return;
 
 		if (typeof link !== 'string') return;
 
 		const threadId = this.extractThreadIdFromUrl(link);
-		const raw = cache.frontmatter?.['Is Active?'];
+		const raw = cache.frontmatter?.[this.prop('isActive')];
 		const isActive = raw !== false && raw !== 'false';
 
 		// Only sync when the value has actually changed in this Obsidian session.
@@ -1266,25 +2588,16 @@ export default class MultimuseObsidian extends Plugin {
 		}
 
 		try {
-			const body: Record<string, unknown> = {
+			await this.getApiClient(account).updateSceneActive({
 				scene_path: file.path,
 				user_id: primaryUserId,
-				is_active: isActive
-			};
-			if (threadId) body.thread_id = threadId;
-
-			const response = await requestUrl({
-				url: `${this.getBotApiUrl()}/api/v1/scenes/update-active`,
-				method: 'POST',
-				headers: { ...this.getApiHeaders(), 'Content-Type': 'application/json' },
-				body: JSON.stringify(body)
+				is_active: isActive,
+				thread_id: threadId || undefined,
 			});
-			if (response.status === 200) {
-				this.sceneActiveCache.set(file.path, isActive);
-				if (!isActive) {
-					this.clearSceneSyncCaches(file.path);
-					console.log(`[MultimuseObsidian] Synced Is Active?=false for ${file.path} - removed from tracker`);
-				}
+			this.sceneActiveCache.set(file.path, isActive);
+			if (!isActive) {
+				this.clearSceneSyncCaches(file.path);
+				console.log(`[MultimuseObsidian] Synced Is Active?=false for ${file.path} - removed from tracker`);
 			}
 		} catch (e) {
 			console.debug(`[MultimuseObsidian] Could not sync Is Active? for ${file.path}:`, e);
@@ -1297,7 +2610,7 @@ export default class MultimuseObsidian extends Plugin {
 	 * Otherwise only Participants changes are pushed (legacy behaviour).
 	 */
 	async syncSceneMetadataToApi(file: TFile, cache: { frontmatter?: Record<string, unknown> }): Promise<void> {
-		const link = cache.frontmatter?.['Link'];
+		const link = cache.frontmatter?.[this.prop('link')];
 		if (!link || typeof link !== 'string') return;
 
 		const frontmatter = cache.frontmatter as FrontmatterData;
@@ -1305,7 +2618,8 @@ export default class MultimuseObsidian extends Plugin {
 			return;
 		}
 
-		const primaryUserId = await this.getPrimaryUserId();
+		const account = this.resolveAccountForScene(file.path, frontmatter);
+		const primaryUserId = await this.getPrimaryUserId(account);
 		if (!primaryUserId) return;
 		const characters = this.getSortedCharacterNames(frontmatter);
 		if (characters.length === 0) return;
@@ -1323,7 +2637,7 @@ export default class MultimuseObsidian extends Plugin {
 
 		try {
 			if (this.settings.obsidianSourceOfTruth) {
-				const response = await this.registerScene({
+				await this.registerScene({
 					threadId,
 					userId: primaryUserId,
 					scenePath: file.path,
@@ -1331,32 +2645,21 @@ export default class MultimuseObsidian extends Plugin {
 					participants,
 					guildId: threadInfo?.guildId ?? null,
 					isActive: true,
+					account,
 				});
-				if (response.status === 200) {
-					this.sceneMetadataSyncCache.set(file.path, fingerprint);
-					console.debug(`[MultimuseObsidian] Synced scene metadata (source of truth) for ${file.path}`);
-				}
+				this.sceneMetadataSyncCache.set(file.path, fingerprint);
+				console.debug(`[MultimuseObsidian] Synced scene metadata (source of truth) for ${file.path}`);
 				return;
 			}
 
-			const body: Record<string, unknown> = {
+			await this.getApiClient(account).updateSceneParticipants({
 				scene_path: file.path,
 				user_id: primaryUserId,
 				participants,
 				thread_id: threadId,
-			};
-
-			const response = await requestUrl({
-				url: `${this.getBotApiUrl()}/api/v1/scenes/update-participants`,
-				method: 'POST',
-				headers: { ...this.getApiHeaders(), 'Content-Type': 'application/json' },
-				body: JSON.stringify(body),
-				throw: false,
 			});
-			if (response.status === 200) {
-				this.sceneMetadataSyncCache.set(file.path, fingerprint);
-				console.debug(`[MultimuseObsidian] Synced Participants=${participants} for ${file.path}`);
-			}
+			this.sceneMetadataSyncCache.set(file.path, fingerprint);
+			console.debug(`[MultimuseObsidian] Synced Participants=${participants} for ${file.path}`);
 		} catch (e) {
 			console.debug(`[MultimuseObsidian] Could not sync scene metadata for ${file.path}:`, e);
 		}
@@ -1375,7 +2678,7 @@ export default class MultimuseObsidian extends Plugin {
 
 	/** True when the scene should be polled/synced. Explicit Is Active? = false always skips API work. */
 	isSceneMarkedActive(frontmatter: FrontmatterData): boolean {
-		const raw = frontmatter['Is Active?'];
+		const raw = frontmatter[this.prop('isActive')];
 		return raw !== false && raw !== 'false';
 	}
 
@@ -1409,7 +2712,7 @@ export default class MultimuseObsidian extends Plugin {
 		for (const file of this.getSceneFiles()) {
 			const cache = this.app.metadataCache.getFileCache(file);
 			const frontmatter = this.getFrontmatter(cache);
-			const link = frontmatter?.['Link'];
+			const link = frontmatter?.[this.prop('link')];
 			if (!link || typeof link !== 'string') continue;
 			const threadId = this.extractThreadIdFromUrl(link);
 			if (threadId) map.set(threadId, file);
@@ -1429,7 +2732,7 @@ export default class MultimuseObsidian extends Plugin {
 
 
 	getCharacterNames(frontmatter: FrontmatterData): string[] {
-		const characters = frontmatter['Characters'];
+		const characters = frontmatter[this.prop('characters')];
 		if (!characters) {
 			return [];
 		}
@@ -1454,16 +2757,7 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 	parseParticipantsFromFrontmatter(frontmatter: FrontmatterData): number {
-		const raw = frontmatter['Participants'];
-		const participants = typeof raw === 'number' && raw >= 1
-			? raw
-			: typeof raw === 'string'
-				? parseInt(raw, 10)
-				: 2;
-		if (isNaN(participants) || participants < 1) {
-			return 2;
-		}
-		return Math.min(participants, 99);
+		return parseParticipants(frontmatter[this.prop('participants')]);
 	}
 
 
@@ -1490,53 +2784,77 @@ export default class MultimuseObsidian extends Plugin {
 	}
 
 
-	async updateFrontmatter(file: TFile, key: string, value: FrontmatterValue): Promise<void> {
-		const content = await this.app.vault.read(file);
-		
-		// Parse frontmatter
-		const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n/;
-		const match = content.match(frontmatterRegex);
-		
-		if (!match) {
-			console.error(`[MultimuseObsidian] No frontmatter found in ${file.path}`);
-			return;
-		}
+	/**
+	 * Single entry point for frontmatter mutations. Uses Obsidian's YAML writer so lists,
+	 * quoted keys, multi-line values and CRLF files survive, and unrelated keys keep their order.
+	 */
+	async editFrontmatter(file: TFile, edit: (frontmatter: FrontmatterData) => void): Promise<void> {
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: FrontmatterData) => {
+			edit(frontmatter);
+		});
+	}
 
-		let frontmatterText = match[1];
-		const body = content.slice(match[0].length);
+	/** Set (or with `undefined`, remove) frontmatter properties on a note. */
+	async updateFrontmatter(file: TFile, updates: FrontmatterUpdates): Promise<void> {
+		await this.editFrontmatter(file, (frontmatter) => {
+			for (const [key, value] of Object.entries(updates)) {
+				if (value === undefined) {
+					delete frontmatter[key];
+				} else {
+					frontmatter[key] = normalizeFrontmatterValue(value);
+				}
+			}
+		});
+	}
 
-		// Escape special regex characters in the key
-		const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-		
-		// Format value for YAML (handle booleans, strings, etc.)
-		let formattedValue: string;
-		if (typeof value === 'boolean') {
-			formattedValue = value.toString(); // "true" or "false"
-		} else if (typeof value === 'string') {
-			formattedValue = value;
-		} else {
-			formattedValue = String(value);
-		}
-		
-		// Update the key-value pair - match the key at the start of a line
-		// Handle both single-line and multi-line values
-		// Match any value after the colon (including true/false, "true"/"false", etc.)
-		const keyRegex = new RegExp(`^${escapedKey}:\\s*(.+)$`, 'gm');
-		const keyMatch = frontmatterText.match(keyRegex);
-
-		if (keyMatch) {
-			// Replace ALL occurrences of the key (in case there are duplicates)
-			// Always update to the new value
-			frontmatterText = frontmatterText.replace(keyRegex, `${key}: ${formattedValue}`);
-		} else {
-			// Add new key-value pair at the end
-			frontmatterText += `\n${key}: ${formattedValue}`;
+	/**
+	 * Rename default-named scene properties (Link, Characters, …) to the configured names
+	 * across the scenes folder. Notes that already have the configured key are left alone.
+	 */
+	async migratePropertyNames(): Promise<void> {
+		const renames = (Object.keys(DEFAULT_PROPERTY_NAMES) as ScenePropertyKey[])
+			.map((key) => ({ from: DEFAULT_PROPERTY_NAMES[key], to: this.prop(key) }))
+			.filter((rename) => rename.from !== rename.to);
+		if (renames.length === 0) {
+			new Notice('Property names match the defaults - nothing to rename.');
+			return;
 		}
 
-		// Reconstruct file content
-		const newContent = `---\n${frontmatterText}\n---\n${body}`;
-		
-		await this.app.vault.modify(file, newContent);
+		const summary = renames.map((rename) => `${rename.from} → ${rename.to}`).join(', ');
+		const confirmed = await this.showConfirm(
+			`Rename properties in every note under "${this.settings.scenesFolder}": ${summary}?`,
+			'Rename'
+		);
+		if (!confirmed) {
+			return;
+		}
+
+		let renamedCount = 0;
+		for (const file of this.getSceneFiles()) {
+			const frontmatter = this.getFrontmatter(this.app.metadataCache.getFileCache(file));
+			if (!frontmatter || !renames.some((rename) => rename.from in frontmatter && !(rename.to in frontmatter))) {
+				continue;
+			}
+			try {
+				await this.editFrontmatter(file, (fm) => {
+					// Rebuild in place so renamed keys keep their original position.
+					const entries = Object.entries(fm);
+					const existingKeys = new Set(entries.map(([key]) => key));
+					for (const [key] of entries) {
+						delete fm[key];
+					}
+					for (const [key, value] of entries) {
+						const rename = renames.find((r) => r.from === key && !existingKeys.has(r.to));
+						fm[rename ? rename.to : key] = value;
+					}
+				});
+				renamedCount++;
+			} catch (error) {
+				console.error(`[MultimuseObsidian] migratePropertyNames: Could not update ${file.path}:`, error);
+			}
+		}
+
+		new Notice(`Renamed properties in ${renamedCount} scene file(s)`);
 	}
 
 	// ========= NEW COMMAND METHODS =========
@@ -1547,11 +2865,134 @@ export default class MultimuseObsidian extends Plugin {
 			return;
 		}
 
-		if (!this.settings.apiKey) {
+		if (!this.hasApiKey()) {
+			new Notice('API key must be configured in settings.');
+			return;
+		}
+
+		await this.runSceneWizard(() => this.runCreateNewSceneFlow());
+	}
+
+	/**
+	 * New-scene wizard with answers filled in ahead (URI handler, pasted link). A link that already
+	 * has a scene note opens that note instead (unless a note is being converted). Resolves with
+	 * whether the scene was made.
+	 */
+	async createSceneFromPrefill(prefill: NewScenePrefill): Promise<boolean> {
+		if (this.sceneCreationInProgress) {
+			return false;
+		}
+
+		if (!this.hasApiKey()) {
+			new Notice('API key must be configured in settings.');
+			return false;
+		}
+
+		const threadInfo = prefill.link ? this.extractThreadInfoFromUrl(prefill.link) : null;
+		if (prefill.link && !threadInfo) {
+			new Notice('Invalid Discord URL format.');
+			return false;
+		}
+		const existing = threadInfo ? this.getExistingSceneLinksByThreadId().get(threadInfo.threadId) : undefined;
+		if (existing && existing !== prefill.file) {
+			new Notice(`This thread already has a scene note: ${existing.basename}`);
+			if (!prefill.file) {
+				await this.app.workspace.getLeaf(false).openFile(existing);
+			}
+			return false;
+		}
+
+		return (await this.runSceneWizard(() => this.runCreateNewSceneFlow(prefill))) !== null;
+	}
+
+	/** obsidian://multimuse-scene?link=<Discord URL>&muse=<name>[&folder=…&name=…&participants=…&account=…] */
+	async handleSceneUri(params: ObsidianProtocolData): Promise<void> {
+		const link = params.link?.trim();
+		if (!link) {
+			new Notice('The MultiMuse scene link is missing its "link" parameter.');
+			return;
+		}
+		let account: MultimuseAccount | null = null;
+		if (params.account) {
+			account = this.findAccount(params.account);
+			if (!account) {
+				new Notice(`Unknown account "${params.account}".`);
+				return;
+			}
+		}
+		// The folder comes from outside the vault: keep it under the scenes folder
+		if (params.folder && params.folder.replace(/\\/g, '/').split('/').some((part) => part.trim() === '..' || part.trim() === '.')) {
+			new Notice(`Invalid folder "${params.folder}" in the MultiMuse scene link.`);
+			return;
+		}
+		await this.createSceneFromPrefill({
+			link,
+			muse: params.muse?.trim() || undefined,
+			account,
+			folder: params.folder,
+			name: params.name?.trim() || undefined,
+			participants: params.participants ? parseParticipants(params.participants) : undefined,
+			confirm: true,
+		});
+	}
+
+	/**
+	 * Ask whether a pasted Discord link should turn the (empty) note into a scene. The link is pasted
+	 * as text when the user declines or the conversion does not finish.
+	 */
+	async offerSceneFromPastedLink(file: TFile, editor: Editor, link: string): Promise<void> {
+		const convert = !this.sceneCreationInProgress
+			&& await this.showConfirm(`Turn "${file.basename}" into a scene for this Discord thread?`, 'Create scene');
+		const converted = convert && await this.createSceneFromPrefill({
+			link,
+			file,
+			account: this.getAccounts().length > 1 ? this.resolveAccountForScene(file.path) : undefined,
+		});
+		if (!converted) {
+			editor.replaceSelection(link);
+		}
+	}
+
+	/**
+	 * Muses named in a prefill (comma-separated names or triggers). Asks when a name matches several
+	 * muses; returns null (so the picker is shown) when a name matches none or the choice is cancelled.
+	 */
+	async matchPrefilledMuses(muses: MuseInfo[], names: string): Promise<MuseInfo[] | null> {
+		const selected: MuseInfo[] = [];
+		for (const name of names.split(',').map((part) => part.trim()).filter(Boolean)) {
+			const muse = await this.chooseMuseMatch(this.findMuseMatches(muses, name), name);
+			if (!muse) {
+				if (muse === undefined) {
+					new Notice(`No muse matches "${name}". Pick the muse for this scene.`);
+				}
+				return null;
+			}
+			if (!selected.includes(muse)) {
+				selected.push(muse);
+			}
+		}
+		return selected.length > 0 ? selected : null;
+	}
+
+	/** Create scene notes for tracked threads that have no note in the scenes folder yet. */
+	async syncFromTracker(): Promise<void> {
+		if (this.sceneCreationInProgress) {
+			return;
+		}
+
+		if (!this.hasApiKey()) {
 			new Notice('API key must be configured in settings.');
 			return;
 		}
 
+		await this.runSceneWizard(() => this.runSyncFromTrackerFlow());
+	}
+
+	/**
+	 * Run a scene-creating modal flow with vault handlers paused and Enter swallowed
+	 * between modals so it cannot reach the editor.
+	 */
+	private async runSceneWizard<T>(flow: () => Promise<T>): Promise<T> {
 		this.sceneCreationInProgress = true;
 		this.sceneCreationKeymapScope = new Scope(this.app.scope);
 		this.sceneCreationKeymapScope.register([], 'Enter', (evt) => {
@@ -1565,7 +3006,7 @@ export default class MultimuseObsidian extends Plugin {
 			if (activeView?.file) {
 				await activeView.save();
 			}
-			await this.runCreateNewSceneFlow();
+			return await flow();
 		} finally {
 			if (this.sceneCreationKeymapScope) {
 				this.app.keymap.popScope(this.sceneCreationKeymapScope);
@@ -1575,159 +3016,132 @@ export default class MultimuseObsidian extends Plugin {
 		}
 	}
 
-	async runCreateNewSceneFlow(): Promise<void> {
-		// 1) Get muses from bot API for all configured user IDs
+	/** New-scene wizard; resolves with the scene note, or null when a step was cancelled or failed. */
+	async runCreateNewSceneFlow(prefill: NewScenePrefill = {}): Promise<TFile | null> {
+		// 0) Pick the account the scene belongs to (skipped with a single account)
+		const account = prefill.account ?? await this.chooseAccount('Select an account');
+		if (!account) return null;
+
+		// 1) Get muses from bot API for the account's user ID
 		let muses: MuseInfo[] = [];
 		try {
 			// Collect all user IDs (deduplicated) - now from API key
-			const userIds = await this.getAllUserIds();
+			const userIds = await this.getAllUserIds(account);
 			if (userIds.length === 0) {
 				new Notice('Failed to get user ID from API key. Please check your API key in settings.');
-				return;
+				return null;
 			}
 
-			// Always use user_ids parameter for consistency with API
-			const queryParam = `user_ids=${userIds.join(',')}`;
-
-			const url = `${this.getBotApiUrl()}/api/v1/muses/list?${queryParam}`;
 			console.log(`[MultimuseObsidian] Fetching muses for ${userIds.length} user(s): ${userIds.join(', ')}`);
-			console.log(`[MultimuseObsidian] API URL: ${url}`);
-
-			const response = await requestUrl({
-				url: url,
-				method: 'GET',
-				headers: this.getApiHeaders()
-			});
 
-			if (response.status === 200) {
-				const data = parseJson<MusesListResponse>(response.text);
-				muses = data.muses || [];
-				console.log(`[MultimuseObsidian] Found ${muses.length} muse(s) from ${userIds.length} user(s)`);
-				if (muses.length > 0) {
-					const ownerIds = muses.map(m => m.owner_id);
-					const uniqueOwners = [...new Set(ownerIds)];
-					console.log(`[MultimuseObsidian] Muses from ${uniqueOwners.length} owner(s): ${uniqueOwners.join(', ')}`);
-					console.log(`[MultimuseObsidian] Muse names: ${muses.map(m => m.name).join(', ')}`);
-				}
-			} else {
-				if (!this.handleApiError(response, 'createNewScene - fetch muses')) {
-					console.error(`[MultimuseObsidian] API error: ${response.status} - ${response.text}`);
-					new Notice(`Failed to fetch muses: ${response.status}`);
-				}
-				return;
+			muses = await this.getApiClient(account).listMuses(userIds);
+			console.log(`[MultimuseObsidian] Found ${muses.length} muse(s) from ${userIds.length} user(s)`);
+			if (muses.length > 0) {
+				const ownerIds = muses.map(m => m.owner_id);
+				const uniqueOwners = [...new Set(ownerIds)];
+				console.log(`[MultimuseObsidian] Muses from ${uniqueOwners.length} owner(s): ${uniqueOwners.join(', ')}`);
+				console.log(`[MultimuseObsidian] Muse names: ${muses.map(m => m.name).join(', ')}`);
 			}
 		} catch (error) {
-			console.error('Error fetching muses:', error);
-			new Notice('Failed to fetch muses from bot API. Check your API URL and connection.');
-			return;
+			if (!this.handleApiError(error, 'createNewScene - fetch muses')) {
+				console.error('Error fetching muses:', error);
+				new Notice(isApiError(error)
+					? `Failed to fetch muses: ${error.message}`
+					: 'Failed to fetch muses from bot API. Check your API URL and connection.');
+			}
+			return null;
 		}
 
 		if (muses.length === 0) {
 			new Notice('No muses found. Make sure you have muses created in Discord.');
-			return;
+			return null;
 		}
 
-		muses.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
-
-		// 2) Select muse
-		const museOptions = muses.map(m => m.name);
-		const selectedMuseIndex = await this.showSuggester(museOptions, museOptions, 'Select a muse');
-		if (selectedMuseIndex === null || selectedMuseIndex < 0) return;
-
-		const selectedMuse = muses[selectedMuseIndex];
+		// 2) Select muses (ensemble scenes can have several of yours)
+		const selectedMuses = (prefill.muse ? await this.matchPrefilledMuses(muses, prefill.muse) : null)
+			?? await this.chooseMuses(muses);
+		if (!selectedMuses) return null;
+		const characters = selectedMuses.map((muse) => muse.name);
+		const museLabel = characters.length === 1 ? `muse "${characters[0]}"` : `muses "${characters.join(', ')}"`;
 
 		// 3) Get Discord thread/channel link
-		const threadUrl = await this.showInputPrompt('Enter Discord thread/channel URL');
-		if (!threadUrl) return;
+		const threadUrl = prefill.link ?? await this.showInputPrompt('Enter Discord thread/channel URL');
+		if (!threadUrl) return null;
 
 		const threadInfo = this.extractThreadInfoFromUrl(threadUrl);
 		if (!threadInfo) {
 			new Notice('Invalid Discord URL format.');
-			return;
+			return null;
 		}
 
-		// 4) Get location (RP folder) - pass muse name for context
-		console.log(`[MultimuseObsidian] createNewScene: About to select location for muse "${selectedMuse.name}"`);
-		const location = await this.selectSceneLocation(`muse "${selectedMuse.name}"`);
-		console.log(`[MultimuseObsidian] createNewScene: Selected location: ${location || 'null (cancelled)'}`);
-		if (!location) return;
-
-		// 5) Get scene name
-		const sceneName = await this.showInputPrompt('Enter scene name', `${selectedMuse.name} - Scene`);
-		if (!sceneName) return;
-
-		// 6) Get participants
-		const participantsStr = await this.showInputPrompt('Number of participants (default: 2)', '2');
-		const participants = parseInt(participantsStr) || 2;
-
-		// 7) Create scene file
-		const filePath = `${location}/${sceneName}.md`;
-		const frontmatter: Record<string, FrontmatterValue> = {
-			'Link': threadUrl,
-			'Characters': [selectedMuse.name],
-			'Participants': participants,
-			'Replied?': false,
-			'Created': new Date().toISOString().split('T')[0],
-		};
+		// Thread, channel and server names prefill the scene name and suggest a folder
+		const threadMetadata = await this.fetchThreadMetadata(account, threadInfo.threadId);
+		const threadName = threadMetadata?.thread_name?.trim() || undefined;
 
-		// Add Roleplay property if enabled
-		if (this.settings.trackRoleplay) {
-			const roleplay = this.extractRoleplayFromPath(location);
-			if (roleplay) {
-				frontmatter['Roleplay'] = roleplay;
-			}
+		// 4) Get location (RP folder) - pass muse names for context
+		let location: string | null;
+		if (prefill.file) {
+			location = prefill.file.parent?.path ?? this.settings.scenesFolder;
+		} else if (prefill.folder !== undefined) {
+			location = this.resolveSceneFolderInput(prefill.folder);
+		} else {
+			const guildName = threadMetadata?.guild_name?.trim();
+			const suggestedFolder = guildName ? this.findFolderForGuild(guildName) : null;
+			console.log(`[MultimuseObsidian] createNewScene: About to select location for ${museLabel}`);
+			location = await this.selectSceneLocation(museLabel, suggestedFolder
+				? { folder: suggestedFolder, detail: `Matches server "${guildName}"` }
+				: undefined);
+			console.log(`[MultimuseObsidian] createNewScene: Selected location: ${location || 'null (cancelled)'}`);
 		}
+		if (!location) return null;
 
-		// Add Is Active? property if enabled
-		if (this.settings.trackIsActive) {
-			frontmatter['Is Active?'] = true;
+		// 5) Get scene name
+		const enteredName = prefill.file?.basename
+			?? prefill.name
+			?? await this.showInputPrompt('Enter scene name', threadName ? sanitizeSceneFileName(threadName) : `${characters.join(' & ')} - Scene`);
+		if (!enteredName) return null;
+		const sceneName = prefill.file ? enteredName : sanitizeSceneFileName(enteredName);
+		if (!prefill.file && this.app.vault.getAbstractFileByPath(`${location}/${sceneName}.md`)) {
+			new Notice(`A note named "${sceneName}" already exists in ${location}.`);
+			return null;
 		}
 
-		const frontmatterLines = ['---'];
-		for (const [key, value] of Object.entries(frontmatter)) {
-			if (Array.isArray(value)) {
-				frontmatterLines.push(`${key}:`);
-				for (const item of value) {
-					frontmatterLines.push(`  - ${item}`);
-				}
-			} else {
-				frontmatterLines.push(`${key}: ${value}`);
-			}
+		// 6) Get participants
+		let participants = prefill.participants;
+		if (!participants) {
+			const participantsStr = await this.showInputPrompt('Number of participants (default: 2)', '2');
+			participants = parseParticipants(participantsStr);
 		}
-		frontmatterLines.push('---');
-		frontmatterLines.push('');
-
-		const content = frontmatterLines.join('\n');
 
-		// Ensure all folders in the path exist (create recursively)
-		const segs = location.split("/").filter(Boolean);
-		let currentPath = segs[0];
-		
-		// Ensure root folder exists
-		let abs = this.app.vault.getAbstractFileByPath(currentPath);
-		if (!abs) {
-			await this.app.vault.createFolder(currentPath);
-		}
-		
-		// Create nested folders
-		for (let i = 1; i < segs.length; i++) {
-			currentPath += "/" + segs[i];
-			const folder = this.app.vault.getAbstractFileByPath(currentPath);
-			if (!folder) {
-				await this.app.vault.createFolder(currentPath);
-			}
+		if (prefill.confirm) {
+			const relativeLocation = location.slice(this.settings.scenesFolder.length + 1) || this.settings.scenesFolder;
+			const confirmed = await this.showConfirm(
+				`Create scene "${sceneName}" for ${characters.join(', ')} in ${relativeLocation}?`,
+				'Create scene'
+			);
+			if (!confirmed) return null;
 		}
 
-		// Create file
-		const createdFile = await this.app.vault.create(filePath, content);
-		
-		// Mark this file as recently created to skip immediate checking
-		this.recentlyCreatedFiles.add(filePath);
-		// Remove from the set after 60 seconds (enough time for the scene to be registered and settled with the API)
-		window.setTimeout(() => {
-			this.recentlyCreatedFiles.delete(filePath);
-			console.log(`[MultimuseObsidian] Removed ${filePath} from recently created files - will now be checked by polling`);
-		}, 60000);
+		// 7) Create scene file (or fill in the note the link was pasted into)
+		const frontmatter = this.buildNewSceneFrontmatter(threadUrl, characters, participants, location, account, threadMetadata);
+		const templateValues = this.buildSceneTemplateValues({
+			characters,
+			location,
+			link: threadUrl,
+			title: sceneName,
+			participants,
+			threadName,
+		});
+		let createdFile: TFile;
+		try {
+			createdFile = prefill.file
+				? await this.convertNoteToScene(prefill.file, frontmatter, templateValues)
+				: await this.createSceneFile(location, sceneName, frontmatter, templateValues);
+		} catch (error) {
+			console.error('[MultimuseObsidian] createNewScene: Could not create scene note:', error);
+			new Notice(`Could not create "${sceneName}": ${getErrorMessage(error)}`);
+			return null;
+		}
 
 		// 8) Link the vault scene to the current Discord-side thread tracker.
 		try {
@@ -1735,178 +3149,699 @@ export default class MultimuseObsidian extends Plugin {
 			
 			// Convert IDs to strings to avoid JavaScript number precision loss
 			// Discord IDs are larger than Number.MAX_SAFE_INTEGER, so we send them as strings
-			// Use primary user ID for thread tracking
-			const primaryUserId = await this.getPrimaryUserId();
+			// Use the chosen account's user ID for thread tracking
+			const primaryUserId = await this.getPrimaryUserId(account);
 			if (!primaryUserId) {
 				new Notice('Failed to get user ID from API key. Please check your API key in settings.');
-				return;
+				return createdFile;
 			}
 			
-			const registerResponse = await this.registerScene({
+			await this.registerScene({
 				threadId: threadInfo.threadId,
 				userId: primaryUserId,
 				scenePath: createdFile.path,
-				characters: [selectedMuse.name],
+				characters,
 				participants: participants,
 				guildId: threadInfo.guildId || null,
 				isActive: true,
+				account,
 			});
-			
-			console.debug(`Scene registration response: ${registerResponse.status} - ${registerResponse.text}`);
 
-			if (registerResponse.status === 200) {
-				this.sceneMetadataSyncCache.set(
-					createdFile.path,
-					metadataFingerprint([selectedMuse.name], participants)
-				);
-				// Add to Base if configured
-				try {
-					if (this.settings.basePath) {
-						await this.addSceneToBase(createdFile, frontmatter);
-					}
-				} catch (baseError) {
-					console.error('Error adding to Base (non-fatal):', baseError);
+			this.sceneMetadataSyncCache.set(
+				createdFile.path,
+				metadataFingerprint(characters, participants)
+			);
+			// Add to Base if configured
+			try {
+				if (this.settings.basePath) {
+					await this.addSceneToBase(createdFile, frontmatter);
 				}
+			} catch (baseError) {
+				console.error('Error adding to Base (non-fatal):', baseError);
+			}
 
-				new Notice(`Scene created: ${sceneName}`);
+			new Notice(`Scene created: ${sceneName}`);
+			if (!prefill.file) {
 				await this.app.workspace.getLeaf(true).openFile(createdFile);
-			} else if (registerResponse.status === 401) {
-				// Authentication error - show helpful message
-				this.handleApiError(registerResponse, 'createNewScene - track thread');
-				new Notice('Scene created but failed to track with bot: Authentication failed. Check your API key.');
-			} else {
-				const errorText = registerResponse.text || 'Unknown error';
-				console.error(`Failed to track thread: ${registerResponse.status} - ${errorText}`);
-				new Notice(`Scene created but failed to track with bot: ${registerResponse.status}`);
 			}
 		} catch (error) {
 			// Log the full error for debugging
 			console.error('Error tracking thread:', error);
-			const errorMessage = getErrorMessage(error);
-			console.error('Error details:', errorMessage);
-			
-			new Notice(`Scene created but failed to track with bot: ${errorMessage}`);
+			if (this.handleApiError(error, 'createNewScene - track thread')) {
+				// Authentication error - show helpful message
+				new Notice('Scene created but failed to track with bot: Authentication failed. Check your API key.');
+			} else {
+				new Notice(`Scene created but failed to track with bot: ${getErrorMessage(error)}`);
+			}
 		}
+		return createdFile;
 	}
 
-	// ========= BASE INTEGRATION =========
 
-	/** Ensure each segment of `folderPath` exists under the vault root. */
-	async ensureFolderPathExists(folderPath: string): Promise<void> {
-		const normalized = folderPath.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
-		if (!normalized) return;
-		const parts = normalized.split('/').filter((p) => p.length > 0);
-		let acc = '';
-		for (const part of parts) {
-			acc = acc ? `${acc}/${part}` : part;
-			const existing = this.app.vault.getAbstractFileByPath(acc);
-			if (!existing) {
-				await this.app.vault.createFolder(acc);
+	async runSyncFromTrackerFlow(): Promise<void> {
+		const existingByThreadId = this.getExistingSceneLinksByThreadId();
+		const untracked: TrackedThreadSource[] = [];
+		const seenThreadIds = new Set<string>();
+		for (const account of this.getAccounts()) {
+			const userId = await this.getPrimaryUserId(account);
+			if (!userId) {
+				new Notice(`Failed to get user ID for account ${account.name}. Please check its API key in settings.`);
+				continue;
 			}
-		}
-	}
 
-	/**
-	 * YAML for a native Obsidian Base listing scene notes under the scenes folder,
-	 * with columns aligned to MultiMuse frontmatter and plugin toggles.
-	 */
-	buildSceneBaseYaml(scenesFolder: string): string {
-		const folderLit = JSON.stringify(scenesFolder);
-		const lines: string[] = [
-			'# MultiMuse Tracker — generated Base (safe to edit in Obsidian)',
-			'filters:',
-			'  and:',
-			'    - file.ext == "md"',
-			`    - file.inFolder(${folderLit})`,
-		];
-		if (this.settings.trackIsActive) {
-			lines.push('    - \'note["Is Active?"] == true\'');
-		}
-		lines.push(
-			'properties:',
-			'  file.name:',
-			'    displayName: Scene',
-			'  file.path:',
-			'    displayName: Path',
-			'  Link:',
-			'    displayName: Link',
-			'  Characters:',
-			'    displayName: Characters',
-		);
-		if (this.settings.trackRoleplay) {
-			lines.push('  Roleplay:', '    displayName: Roleplay');
+			const trackedThreads = await this.fetchTrackedThreads(userId, `syncFromTracker (${account.name})`, account);
+			if (!trackedThreads) {
+				new Notice(`Failed to fetch tracked threads for account ${account.name}.`);
+				continue;
+			}
+
+			for (const thread of trackedThreads) {
+				const threadId = String(thread.thread_id);
+				// Alts in the same thread share one scene note; the first account listed wins.
+				if (existingByThreadId.has(threadId) || seenThreadIds.has(threadId)) {
+					continue;
+				}
+				// A note the tracker already points at counts as synced even if its Link is missing.
+				const scenePaths = [thread.scene_path, ...(thread.scene_paths || [])].filter(Boolean);
+				if (scenePaths.some((path) => this.app.vault.getAbstractFileByPath(path as string) instanceof TFile)) {
+					continue;
+				}
+				seenThreadIds.add(threadId);
+				untracked.push({ thread, account, userId });
+			}
 		}
-		lines.push(
-			'  Participants:',
-			'    displayName: Participants',
-			"  'Replied?':",
-			'    displayName: Replied?',
-		);
-		if (this.settings.trackIsActive) {
-			lines.push("  'Is Active?':", '    displayName: Is Active?');
+
+		if (untracked.length === 0) {
+			new Notice('All tracked threads already have scene notes.');
+			return;
 		}
-		lines.push(
-			'  Created:',
-			'    displayName: Created',
-			'views:',
-			'  - type: table',
-			'    name: Roleplay Tracker',
-			'    order:',
-			'      - file.name',
-			'      - Link',
-			'      - Characters',
-		);
-		if (this.settings.trackRoleplay) {
-			lines.push('      - Roleplay');
+
+		const rows = await this.showTrackerSyncReview(untracked);
+		if (!rows || rows.length === 0) {
+			return;
 		}
-		lines.push(
-			'      - Participants',
-			"      - 'Replied?'",
-		);
-		if (this.settings.trackIsActive) {
-			lines.push("      - 'Is Active?'");
+
+		let createdCount = 0;
+		for (const row of rows) {
+			const created = await this.createSceneFromTrackedThread(row.thread, row.location, row.sceneName, row.userId, row.account);
+			if (created) {
+				createdCount++;
+			}
 		}
-		lines.push('      - Created');
-		return lines.join('\n') + '\n';
-	}
 
-	/** Starter markdown table compatible with this plugin's markdown Base integration. */
-	buildMarkdownTrackerStub(): string {
-		return [
-			'# MultiMuse scene tracker',
-			'',
-			'Rows below are appended when you create or sync scenes if **Obsidian Base Path** points to this file.',
-			'',
-			'| Scene | Characters | Link | Participants | Replied? |',
-			'|-------|------------|------|--------------|----------|',
-			'',
-		].join('\n');
+		new Notice(`Sync from Tracker: created ${createdCount} of ${rows.length} scene file(s)`);
 	}
 
-	/**
-	 * Create the configured scenes folder (if missing), then a new Base or markdown tracker file.
-	 * If **Obsidian Base Path** is empty, creates `<Scenes Folder>/Roleplay Tracker.base` and saves that path.
-	 */
-	async initializeMultimuseWorkspace(): Promise<void> {
-		const scenesFolder = this.settings.scenesFolder
-			.trim()
-			.replace(/\\/g, '/')
-			.replace(/^\/+|\/+$/g, '');
-		if (!scenesFolder) {
-			new Notice('Set Scenes Folder in Multimuse Tracker settings first.');
-			return;
-		}
+	/** Review untracked threads in one modal; resolves with the rows to import, or null when cancelled. */
+	showTrackerSyncReview(threads: TrackedThreadSource[]): Promise<TrackerSyncRow[] | null> {
+		return new Promise((resolve) => {
+			const RP_ROOT = this.settings.scenesFolder;
+			const rows: TrackerSyncRow[] = threads.map(({ thread, account, userId }) => {
+				// Seed the folder from the tracker's last known scene path when it lives under the scenes folder.
+				const knownPath = thread.scene_path || thread.scene_paths?.[0] || '';
+				const knownFolder = knownPath.startsWith(RP_ROOT + '/') && knownPath.includes('/')
+					? knownPath.slice(RP_ROOT.length + 1, knownPath.lastIndexOf('/'))
+					: '';
+				return {
+					thread,
+					account,
+					userId,
+					sceneName: this.getTrackedThreadLabel(thread),
+					location: knownFolder,
+					selected: true,
+				};
+			});
+			const modal = new TrackerSyncModal(this.app, this, rows, this.getSceneFolderOptions(), (confirmed) => {
+				if (!confirmed) {
+					resolve(null);
+					return;
+				}
+				resolve(confirmed
+					.filter((row) => row.selected)
+					.map((row) => ({
+						...row,
+						sceneName: row.sceneName.trim() || this.getTrackedThreadLabel(row.thread),
+						location: this.resolveSceneFolderInput(row.location),
+					})));
+			});
+			modal.open();
+		});
+	}
 
-		const configuredBase = this.settings.basePath
-			.trim()
-			.replace(/\\/g, '/')
-			.replace(/^\/+|\/+$/g, '');
+	/** Map a folder typed relative to the scenes folder (blank = scenes folder itself) to a vault path. */
+	resolveSceneFolderInput(relPath: string): string {
+		const cleaned = relPath.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/+$/, '').trim();
+		return cleaned ? `${this.settings.scenesFolder}/${cleaned}` : this.settings.scenesFolder;
+	}
 
-		let targetBasePath: string;
-		if (!configuredBase) {
-			targetBasePath = `${scenesFolder}/Roleplay Tracker.base`;
-		} else {
-			targetBasePath = configuredBase;
+	/** Display name for a tracked thread: its Discord name, else the muses it tracks. */
+	getTrackedThreadLabel(thread: TrackedThread): string {
+		if (thread.thread_name && thread.thread_name.trim()) {
+			return thread.thread_name.trim();
+		}
+		const characters = this.getTrackedThreadCharacters(thread);
+		return characters.length > 0 ? `${characters.join(', ')} - Scene` : `Thread ${thread.thread_id}`;
+	}
+
+	getTrackedThreadCharacters(thread: TrackedThread): string[] {
+		const names = thread.muse_names?.length ? thread.muse_names : thread.muse_name ? [thread.muse_name] : [];
+		return sortNamesAlphabetically(names.map((n) => n.trim()).filter((n) => n.length > 0));
+	}
+
+	/** Create and register a scene note for one tracked thread. Returns the new file, or null on failure. */
+	async createSceneFromTrackedThread(
+		thread: TrackedThread,
+		location: string,
+		sceneName: string,
+		userId: string,
+		account: MultimuseAccount | null
+	): Promise<TFile | null> {
+		const threadId = String(thread.thread_id);
+		const guildId = thread.guild_id ? String(thread.guild_id) : null;
+		if (!guildId) {
+			console.error(`[MultimuseObsidian] syncFromTracker: Thread ${threadId} has no guild id - cannot build Link`);
+			new Notice(`Skipped "${sceneName}": tracker did not return a server id.`);
+			return null;
+		}
+
+		const characters = this.getTrackedThreadCharacters(thread);
+		if (characters.length === 0) {
+			new Notice(`Skipped "${sceneName}": tracker has no muses for this thread.`);
+			return null;
+		}
+
+		const link = buildDiscordThreadUrl(guildId, threadId);
+		const participants = parseParticipants(thread.participants);
+		const fileName = sanitizeSceneFileName(sceneName);
+		if (this.app.vault.getAbstractFileByPath(`${location}/${fileName}.md`)) {
+			new Notice(`Skipped "${sceneName}": a note with that name already exists.`);
+			return null;
+		}
+
+		const frontmatter = this.buildNewSceneFrontmatter(link, characters, participants, location, account);
+		let createdFile: TFile;
+		try {
+			createdFile = await this.createSceneFile(location, fileName, frontmatter, this.buildSceneTemplateValues({
+				characters,
+				location,
+				link,
+				title: fileName,
+				participants,
+				threadName: thread.thread_name?.trim(),
+			}));
+		} catch (error) {
+			console.error(`[MultimuseObsidian] syncFromTracker: Could not create scene for thread ${threadId}:`, error);
+			new Notice(`Could not create "${sceneName}": ${getErrorMessage(error)}`);
+			return null;
+		}
+
+		try {
+			await this.registerScene({
+				threadId,
+				userId,
+				scenePath: createdFile.path,
+				characters,
+				participants,
+				guildId,
+				isActive: true,
+				account,
+			});
+			this.sceneMetadataSyncCache.set(createdFile.path, metadataFingerprint(characters, participants));
+			try {
+				if (this.settings.basePath) {
+					await this.addSceneToBase(createdFile, frontmatter);
+				}
+			} catch (baseError) {
+				console.error('Error adding to Base (non-fatal):', baseError);
+			}
+		} catch (error) {
+			if (!this.handleApiError(error, 'syncFromTracker - register scene')) {
+				console.error('[MultimuseObsidian] Error registering synced scene:', error);
+				new Notice(`Scene "${sceneName}" created but failed to register with bot: ${getErrorMessage(error)}`);
+			}
+		}
+
+		return createdFile;
+	}
+
+	/**
+	 * Add one of your muses to the scene's Characters, or remove one, then re-register the scene so
+	 * the tracker knows the new set (whether or not Obsidian is the source of truth).
+	 */
+	async editSceneMuses(file: TFile): Promise<void> {
+		const frontmatter = this.getFrontmatter(this.app.metadataCache.getFileCache(file));
+		const link = frontmatter?.[this.prop('link')];
+		const threadInfo = typeof link === 'string' ? this.extractThreadInfoFromUrl(link) : null;
+		if (!frontmatter || !threadInfo) {
+			new Notice('No Link property. Add the Discord thread URL to frontmatter to edit its muses.');
+			return;
+		}
+		const account = this.resolveAccountForScene(file.path, frontmatter);
+		const primaryUserId = await this.getPrimaryUserId(account);
+		if (!primaryUserId) {
+			new Notice('Failed to get user ID from API key. Please check your API key in settings.');
+			return;
+		}
+		const muses = await this.getMusesForUserIds([primaryUserId], {}, account);
+		if (muses.length === 0) {
+			new Notice('No muses found. Check your API key and that you have muses created in Discord.');
+			return;
+		}
+
+		// Current characters first (to remove), flagged when they match none of your muses; then the rest to add
+		const current = this.getCharacterNames(frontmatter);
+		const inScene = new Set<MuseInfo>();
+		const options: PickerOption<{ action: 'add' | 'remove'; name: string }>[] = current.map((name) => {
+			const matches = this.findMuseMatches(muses, name, this.getPinnedMuseId(frontmatter, name));
+			matches.forEach((muse) => inScene.add(muse));
+			return {
+				label: `Remove ${name}`,
+				value: { action: 'remove', name },
+				detail: matches.length > 0 ? 'In this scene' : 'In this scene · not found among your muses',
+			};
+		});
+		for (const option of this.buildMusePickerOptions(muses.filter((muse) => !inScene.has(muse)))) {
+			options.push({ ...option, label: `Add ${option.label}`, value: { action: 'add', name: option.value.name } });
+		}
+		const choice = await this.showPicker(options, `Add or remove a muse in ${file.basename}`);
+		if (!choice) return;
+
+		let characters: string[];
+		if (choice.action === 'remove') {
+			characters = current.filter((name) => name !== choice.name);
+			if (characters.length === 0) {
+				new Notice('A scene needs at least one character. Add another muse before removing this one.');
+				return;
+			}
+		} else {
+			characters = [...current, choice.name];
+		}
+
+		const participants = this.parseParticipantsFromFrontmatter(frontmatter);
+		// Set before the write so the metadata watcher does not push the same change again
+		this.sceneMetadataSyncCache.set(file.path, metadataFingerprint(characters, participants));
+		const museIdKey = this.prop('museId');
+		await this.editFrontmatter(file, (fm) => {
+			fm[this.prop('characters')] = characters;
+			const pins = fm[museIdKey];
+			if (choice.action === 'add' && (typeof pins === 'string' || typeof pins === 'number') && current.length === 1) {
+				// A plain pin only applies to one-character scenes; key it by that character before adding another
+				fm[museIdKey] = { [current[0]]: String(pins) };
+			} else if (choice.action === 'remove' && pins && typeof pins === 'object' && !Array.isArray(pins)) {
+				const remaining: Record<string, unknown> = {};
+				for (const [name, id] of Object.entries(pins as Record<string, unknown>)) {
+					if (name.toLowerCase().trim() !== choice.name.toLowerCase().trim()) {
+						remaining[name] = id;
+					}
+				}
+				if (Object.keys(remaining).length > 0) {
+					fm[museIdKey] = remaining;
+				} else {
+					delete fm[museIdKey];
+				}
+			}
+		});
+
+		try {
+			await this.registerScene({
+				threadId: threadInfo.threadId,
+				userId: primaryUserId,
+				scenePath: file.path,
+				characters,
+				participants,
+				guildId: threadInfo.guildId,
+				isActive: this.isSceneMarkedActive(frontmatter),
+				account,
+			});
+			new Notice(`${choice.action === 'add' ? 'Added' : 'Removed'} ${choice.name}. Scene muses: ${characters.join(', ')}`);
+		} catch (error) {
+			this.sceneMetadataSyncCache.delete(file.path);
+			console.error('[MultimuseObsidian] editSceneMuses register error:', error);
+			if (!this.handleApiError(error, 'editSceneMuses - register scene')) {
+				new Notice(`Characters updated, but the tracker could not be updated: ${getErrorMessage(error)}`);
+			}
+		}
+	}
+
+	/** Frontmatter for a freshly created scene note, honoring the Roleplay / Is Active? toggles. */
+	buildNewSceneFrontmatter(
+		link: string,
+		characters: string[],
+		participants: number,
+		location: string,
+		account?: MultimuseAccount | null,
+		threadMetadata?: ThreadMetadata | null
+	): Record<string, FrontmatterValue> {
+		const frontmatter: Record<string, FrontmatterValue> = {
+			[this.prop('link')]: link,
+			[this.prop('characters')]: characters,
+			[this.prop('participants')]: participants,
+			...this.buildTurnUpdates(false),
+			'Created': new Date().toISOString().split('T')[0],
+		};
+
+		// Add Roleplay property if enabled
+		if (this.settings.trackRoleplay) {
+			const roleplay = this.extractRoleplayFromPath(location);
+			if (roleplay) {
+				frontmatter['Roleplay'] = roleplay;
+			}
+		}
+
+		// Add Is Active? property if enabled
+		if (this.settings.trackIsActive) {
+			frontmatter[this.prop('isActive')] = true;
+		}
+
+		// Add Server / Channel (Discord names) if enabled and known
+		if (this.settings.trackServerChannel && threadMetadata) {
+			const server = threadMetadata.guild_name?.trim();
+			const channel = threadMetadata.parent_name?.trim();
+			if (server) {
+				frontmatter[this.prop('server')] = server;
+			}
+			if (channel) {
+				frontmatter[this.prop('channel')] = channel;
+			}
+		}
+
+		// Pin the account when several are configured and the folder would not pick it anyway
+		if (account && this.getAccounts().length > 1 && this.resolveAccountForScene(`${location}/_`) !== account) {
+			frontmatter[this.prop('account')] = account.name;
+		}
+
+		return frontmatter;
+	}
+
+	/**
+	 * Write a new scene note under `location` and mark it recently created so polling
+	 * does not overwrite its state before the tracker has settled.
+	 */
+	async createSceneFile(
+		location: string,
+		sceneName: string,
+		frontmatter: Record<string, FrontmatterValue>,
+		templateValues?: Record<string, string>
+	): Promise<TFile> {
+		const filePath = `${location}/${sceneName}.md`;
+
+		// Ensure all folders in the path exist (create recursively)
+		await this.ensureFolderPathExists(location);
+
+		const template = templateValues ? await this.loadSceneTemplate(location, templateValues) : null;
+		this.markRecentlyCreated(filePath);
+		const createdFile = await this.app.vault.create(filePath, template?.body ?? '');
+		// Template keys come first; the plugin's own properties win when both set one
+		await this.updateFrontmatter(createdFile, template ? { ...template.frontmatter, ...frontmatter } : frontmatter);
+		return createdFile;
+	}
+
+	/**
+	 * Thread, channel and server names for a Discord thread. Falls back to the thread name the
+	 * tracker knows when the bot cannot describe the thread; null when neither has anything.
+	 */
+	async fetchThreadMetadata(account: MultimuseAccount, threadId: string): Promise<ThreadMetadata | null> {
+		const userId = await this.getPrimaryUserId(account);
+		if (!userId) {
+			return null;
+		}
+		// Names are only a convenience: one quick attempt each, and the wizard carries on without them
+		const client = this.getApiClient(account, { queued: true });
+		const lookup = new Notice('Looking up the Discord thread…', 0);
+		try {
+			let metadata: ThreadMetadata | null = null;
+			try {
+				metadata = await client.getThreadMetadata({ threadId, userId });
+			} catch (error) {
+				console.warn(`[MultimuseObsidian] Could not fetch thread metadata for ${threadId}:`, getErrorMessage(error));
+			}
+			if (metadata?.thread_name?.trim()) {
+				return metadata;
+			}
+			try {
+				const tracked = (await client.getTrackedThreads(userId)).find((thread) => String(thread.thread_id) === threadId);
+				if (tracked?.thread_name?.trim()) {
+					return { guild_id: tracked.guild_id ?? null, ...metadata, thread_id: threadId, thread_name: tracked.thread_name };
+				}
+			} catch (error) {
+				console.warn(`[MultimuseObsidian] Could not fetch tracked threads for ${threadId}:`, getErrorMessage(error));
+			}
+			return metadata;
+		} finally {
+			lookup.hide();
+		}
+	}
+
+	/** Turn an existing (empty) note into a scene: template body if the note is still empty, then the scene properties. */
+	async convertNoteToScene(
+		file: TFile,
+		frontmatter: Record<string, FrontmatterValue>,
+		templateValues: Record<string, string>
+	): Promise<TFile> {
+		const template = await this.loadSceneTemplate(file.parent?.path ?? this.settings.scenesFolder, templateValues);
+		this.markRecentlyCreated(file.path);
+		if (template?.body.trim()) {
+			await this.app.vault.process(file, (content) => content.trim() ? content : template.body);
+		}
+		await this.updateFrontmatter(file, template ? { ...template.frontmatter, ...frontmatter } : frontmatter);
+		return file;
+	}
+
+	/** Placeholder values for a new scene's template (see fillTemplatePlaceholders). */
+	buildSceneTemplateValues(params: {
+		characters: string[];
+		location: string;
+		link: string;
+		title: string;
+		participants: number;
+		threadName?: string;
+	}): Record<string, string> {
+		const stamp = formatNoteTimestamp(new Date());
+		return {
+			muse: params.characters.join(', '),
+			roleplay: this.extractRoleplayFromPath(params.location) ?? '',
+			thread_name: params.threadName ?? '',
+			link: params.link,
+			date: stamp.slice(0, 10),
+			time: stamp.slice(11),
+			title: params.title,
+			participants: String(params.participants),
+		};
+	}
+
+	/** Template note path for a new scene in `location`: the deepest matching folder template, else the default. */
+	getSceneTemplatePath(location: string): string {
+		let best = this.settings.sceneTemplate.trim();
+		let bestDepth = -1;
+		for (const entry of this.settings.folderTemplates) {
+			// A row without a folder is unfinished, not a template for the whole scenes folder
+			if (!entry.folder.trim()) continue;
+			const folder = this.resolveSceneFolderInput(entry.folder);
+			if (!entry.template.trim() || (location !== folder && !location.startsWith(folder + '/'))) continue;
+			if (folder.length > bestDepth) {
+				best = entry.template.trim();
+				bestDepth = folder.length;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * The scene template for `location` with placeholders filled in: its frontmatter (extra properties
+	 * for the scene) and its body. Null when no template applies or the template note is missing.
+	 */
+	async loadSceneTemplate(
+		location: string,
+		values: Record<string, string>
+	): Promise<{ frontmatter: Record<string, FrontmatterValue>; body: string } | null> {
+		const configured = this.getSceneTemplatePath(location);
+		if (!configured) {
+			return null;
+		}
+		const path = configured.replace(/\\/g, '/').replace(/^\/+/, '');
+		const file = this.app.vault.getAbstractFileByPath(path.endsWith('.md') ? path : `${path}.md`);
+		if (!(file instanceof TFile)) {
+			new Notice(`Scene template "${configured}" not found; the scene was created without it.`);
+			return null;
+		}
+
+		const content = await this.app.vault.read(file);
+		const info = getFrontMatterInfo(content);
+		const frontmatter: Record<string, FrontmatterValue> = {};
+		if (info.exists) {
+			try {
+				const parsed = parseYaml(info.frontmatter) as unknown;
+				if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+					for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+						frontmatter[key] = fillTemplateFrontmatter(value, values);
+					}
+				}
+			} catch (error) {
+				console.warn(`[MultimuseObsidian] Could not read frontmatter of scene template ${file.path}:`, error);
+			}
+		}
+		return { frontmatter, body: fillTemplatePlaceholders(content.slice(info.contentStart), values) };
+	}
+
+	/** Skip polling/vault handlers for a plugin-created file until it has been registered and settled. */
+	markRecentlyCreated(filePath: string): void {
+		this.recentlyCreatedFiles.add(filePath);
+		// Remove from the set after 60 seconds (enough time for the scene to be registered and settled with the API)
+		window.setTimeout(() => {
+			this.recentlyCreatedFiles.delete(filePath);
+			console.log(`[MultimuseObsidian] Removed ${filePath} from recently created files - will now be checked by polling`);
+		}, 60000);
+	}
+
+	// ========= BASE INTEGRATION =========
+
+	/** Ensure each segment of `folderPath` exists under the vault root. */
+	async ensureFolderPathExists(folderPath: string): Promise<void> {
+		const normalized = folderPath.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+		if (!normalized) return;
+		const parts = normalized.split('/').filter((p) => p.length > 0);
+		let acc = '';
+		for (const part of parts) {
+			acc = acc ? `${acc}/${part}` : part;
+			const existing = this.app.vault.getAbstractFileByPath(acc);
+			if (!existing) {
+				await this.app.vault.createFolder(acc);
+			}
+		}
+	}
+
+	/**
+	 * YAML for a native Obsidian Base listing scene notes under the scenes folder,
+	 * with columns aligned to MultiMuse frontmatter and plugin toggles.
+	 */
+	buildSceneBaseYaml(scenesFolder: string): string {
+		const folderLit = JSON.stringify(scenesFolder);
+		const link = yamlPropertyKey(this.prop('link'));
+		const characters = yamlPropertyKey(this.prop('characters'));
+		const participants = yamlPropertyKey(this.prop('participants'));
+		const turnKeys = this.getTurnPropertyKeys();
+		const isActive = yamlPropertyKey(this.prop('isActive'));
+		const lines: string[] = [
+			'# MultiMuse Tracker — generated Base (safe to edit in Obsidian)',
+			'filters:',
+			'  and:',
+			'    - file.ext == "md"',
+			`    - file.inFolder(${folderLit})`,
+		];
+		if (this.settings.trackIsActive) {
+			lines.push(`    - ${yamlSingleQuote(`note[${JSON.stringify(this.prop('isActive'))}] == true`)}`);
+		}
+		lines.push(
+			'properties:',
+			'  file.name:',
+			'    displayName: Scene',
+			'  file.path:',
+			'    displayName: Path',
+			`  ${link}:`,
+			`    displayName: ${yamlSingleQuote(this.prop('link'))}`,
+			`  ${characters}:`,
+			`    displayName: ${yamlSingleQuote(this.prop('characters'))}`,
+		);
+		if (this.settings.trackRoleplay) {
+			lines.push('  Roleplay:', '    displayName: Roleplay');
+		}
+		lines.push(
+			`  ${participants}:`,
+			`    displayName: ${yamlSingleQuote(this.prop('participants'))}`,
+		);
+		const activityKeys: ScenePropertyKey[] = [];
+		if (this.settings.trackLastActivity) activityKeys.push('lastActivity');
+		if (this.settings.trackMyLastPost) activityKeys.push('myLastPost');
+		if (this.settings.trackPostsSinceMine) activityKeys.push('postsSinceMine');
+		for (const key of [...turnKeys, ...activityKeys]) {
+			lines.push(`  ${yamlPropertyKey(this.prop(key))}:`, `    displayName: ${yamlSingleQuote(this.prop(key))}`);
+		}
+		if (this.settings.trackIsActive) {
+			lines.push(`  ${isActive}:`, `    displayName: ${yamlSingleQuote(this.prop('isActive'))}`);
+		}
+		lines.push(
+			'  Created:',
+			'    displayName: Created',
+			'views:',
+		);
+		const order: string[] = ['file.name', link, characters];
+		if (this.settings.trackRoleplay) {
+			order.push('Roleplay');
+		}
+		order.push(participants, ...[...turnKeys, ...activityKeys].map((key) => yamlPropertyKey(this.prop(key))));
+		if (this.settings.trackIsActive) {
+			order.push(isActive);
+		}
+		order.push('Created');
+
+		// Second view narrows to scenes where it is your turn.
+		const yourTurnFilter = turnKeys.includes('myTurn')
+			? `note[${JSON.stringify(this.prop('myTurn'))}] == true`
+			: `note[${JSON.stringify(this.prop('replied'))}] != true`;
+		for (const view of [
+			{ name: 'Roleplay Tracker', filter: null },
+			{ name: 'Your Turn', filter: yourTurnFilter },
+		]) {
+			lines.push('  - type: table', `    name: ${view.name}`);
+			if (view.filter) {
+				lines.push('    filters:', '      and:', `        - ${yamlSingleQuote(view.filter)}`);
+			}
+			lines.push('    order:', ...order.map((column) => `      - ${column}`));
+		}
+		return lines.join('\n') + '\n';
+	}
+
+	/** Header + separator rows of the markdown tracker table, using the configured property names. */
+	buildMarkdownTrackerHeader(): string[] {
+		const columns = [
+			'Scene',
+			this.prop('characters'),
+			this.prop('link'),
+			this.prop('participants'),
+			...this.getTurnPropertyKeys().map((key) => this.prop(key)),
+		];
+		return [
+			`| ${columns.join(' | ')} |`,
+			`|${columns.map((c) => '-'.repeat(c.length + 2)).join('|')}|`,
+		];
+	}
+
+	/** Starter markdown table compatible with this plugin's markdown Base integration. */
+	buildMarkdownTrackerStub(): string {
+		return [
+			'# MultiMuse scene tracker',
+			'',
+			'Rows below are appended when you create or sync scenes if **Obsidian Base Path** points to this file.',
+			'',
+			...this.buildMarkdownTrackerHeader(),
+			'',
+		].join('\n');
+	}
+
+	/**
+	 * Create the configured scenes folder (if missing), then a new Base or markdown tracker file.
+	 * If **Obsidian Base Path** is empty, creates `<Scenes Folder>/Roleplay Tracker.base` and saves that path.
+	 */
+	async initializeMultimuseWorkspace(): Promise<void> {
+		const scenesFolder = this.settings.scenesFolder
+			.trim()
+			.replace(/\\/g, '/')
+			.replace(/^\/+|\/+$/g, '');
+		if (!scenesFolder) {
+			new Notice('Set Scenes Folder in Multimuse Tracker settings first.');
+			return;
+		}
+
+		const configuredBase = this.settings.basePath
+			.trim()
+			.replace(/\\/g, '/')
+			.replace(/^\/+|\/+$/g, '');
+
+		let targetBasePath: string;
+		if (!configuredBase) {
+			targetBasePath = `${scenesFolder}/Roleplay Tracker.base`;
+		} else {
+			targetBasePath = configuredBase;
 		}
 
 		const ext = (targetBasePath.split('.').pop() || '').toLowerCase();
@@ -1978,9 +3913,10 @@ export default class MultimuseObsidian extends Plugin {
 			
 			// Extract characters from frontmatter
 			const characters = this.getCharacterNames(frontmatter);
-			const link = frontmatterValueToString(frontmatter['Link']);
-			const participants = frontmatterValueToString(frontmatter['Participants'], '2');
-			const replied = frontmatterValueToString(frontmatter['Replied?'], 'false');
+			const link = frontmatterValueToString(frontmatter[this.prop('link')]);
+			const participants = frontmatterValueToString(frontmatter[this.prop('participants')], '2');
+			const replied = this.readRepliedState(frontmatter) ?? false;
+			const turnCells = this.getTurnPropertyKeys().map((key) => String(key === 'myTurn' ? !replied : replied));
 
 			// Check if scene already exists in table
 			if (baseContent.includes(`| ${file.basename} |`)) {
@@ -1989,7 +3925,7 @@ export default class MultimuseObsidian extends Plugin {
 			}
 
 			// Add record as markdown table row
-			const recordLine = `| ${file.basename} | ${characters.join(', ')} | ${link} | ${participants} | ${replied} |\n`;
+			const recordLine = `| ${[file.basename, characters.join(', '), link, participants, ...turnCells].join(' | ')} |\n`;
 			
 			// Check if Base has table structure
 			if (baseContent.includes('|')) {
@@ -1997,7 +3933,7 @@ export default class MultimuseObsidian extends Plugin {
 				await this.app.vault.modify(baseFile, baseContent + recordLine);
 			} else {
 				// Create table structure
-				const tableHeader = '| Scene | Characters | Link | Participants | Replied? |\n|-------|------------|------|--------------|----------|\n';
+				const tableHeader = this.buildMarkdownTrackerHeader().join('\n') + '\n';
 				await this.app.vault.modify(baseFile, tableHeader + recordLine);
 			}
 		} catch (error) {
@@ -2047,10 +3983,8 @@ export default class MultimuseObsidian extends Plugin {
 		return parts.length > 0 ? parts[0] : null;
 	}
 
-	async selectSceneLocation(context?: string): Promise<string | null> {
-		/**Select or create scene location folder.
-		 * @param context Optional context string (e.g., muse name) to display in the prompt
-		 */
+	/** Existing folders under the scenes folder, relative to it (e.g. "For the Greeks/Twin Flames"). */
+	getSceneFolderOptions(): string[] {
 		const RP_ROOT = this.settings.scenesFolder;
 		const dirSet = new Set<string>();
 
@@ -2066,13 +4000,46 @@ export default class MultimuseObsidian extends Plugin {
 			}
 		}
 
-		let options = Array.from(dirSet)
+		return Array.from(dirSet)
 			.map((fullPath) => fullPath.slice(RP_ROOT.length + 1))
 			.filter(Boolean)
 			.sort((a, b) => a.localeCompare(b, "en", { sensitivity: "base" }));
+	}
+
+	/**
+	 * Roleplay folder (relative to the scenes folder) named like a Discord server, ignoring case and
+	 * punctuation. Names must match exactly; the shallowest such folder wins.
+	 */
+	findFolderForGuild(guildName: string): string | null {
+		const guild = normalizeFolderMatchName(guildName);
+		if (!guild) {
+			return null;
+		}
+		let best: string | null = null;
+		for (const folder of this.getSceneFolderOptions()) {
+			const name = normalizeFolderMatchName(folder.split('/').pop() ?? '');
+			if (name === guild && (best === null || folder.split('/').length < best.split('/').length)) {
+				best = folder;
+			}
+		}
+		return best;
+	}
+
+	async selectSceneLocation(context?: string, suggested?: { folder: string; detail: string }): Promise<string | null> {
+		/**Select or create scene location folder.
+		 * @param context Optional context string (e.g., muse name) to display in the prompt
+		 * @param suggested Optional folder (relative to the scenes folder) listed first, with why it is suggested
+		 */
+		const RP_ROOT = this.settings.scenesFolder;
+		const options: PickerOption<string>[] = this.getSceneFolderOptions().map((folder) => ({ label: folder, value: folder }));
+		const suggestedIndex = suggested ? options.findIndex((option) => option.value === suggested.folder) : -1;
+		if (suggested && suggestedIndex !== -1) {
+			options.splice(suggestedIndex, 1);
+			options.unshift({ label: suggested.folder, value: suggested.folder, detail: suggested.detail });
+		}
 
-		// Always add the option to create a new folder path
-		options.push("+ New folder path…");
+		// Always offer creating a new folder path, whatever is typed in the search
+		options.push({ label: "+ New folder path…", value: "+ New folder path…", alwaysShow: true });
 
 		// Build title with context if provided
 		const suggesterTitle = context 
@@ -2080,15 +4047,12 @@ export default class MultimuseObsidian extends Plugin {
 			: 'Select scene location';
 		
 		console.log(`[MultimuseObsidian] selectSceneLocation: Showing ${options.length} options with title: ${suggesterTitle}`);
-		const choiceIndex = await this.showSuggester(options, options, suggesterTitle);
-		if (choiceIndex === null) {
+		const choice = await this.showPicker(options, suggesterTitle);
+		if (choice === null) {
 			console.log(`[MultimuseObsidian] selectSceneLocation: User cancelled or no selection`);
 			return null;
 		}
 
-		const choice = options[choiceIndex];
-		if (!choice) return null;
-
 		let relPath: string;
 		if (choice === "+ New folder path…") {
 			const promptMsg = context
@@ -2127,74 +4091,81 @@ export default class MultimuseObsidian extends Plugin {
 		modal.containerEl.addEventListener('keydown', trapEnter, { capture: true });
 	}
 
-	showSuggester<T>(items: string[], _values: T[], title?: string): Promise<number | null> {
+	/** Fuzzy-search picker (see PickerModal); resolves with the chosen value, or null when dismissed. */
+	showPicker<T>(options: PickerOption<T>[], placeholder: string): Promise<T | null> {
 		return new Promise((resolve) => {
-			const modal = new (class extends Modal {
-				selectedIndex: number | null = null;
-				items: string[];
-				titleText: string;
-				host: MultimuseObsidian;
-
-				constructor(app: App, items: string[], titleText: string | undefined, host: MultimuseObsidian) {
-					super(app);
-					this.items = items;
-					this.titleText = titleText || 'Select an option';
-					this.host = host;
-				}
-
-				onOpen() {
-					this.host.isolateWizardModal(this);
-					const { contentEl } = this;
-					contentEl.empty();
-					this.setTitle(this.titleText);
-					
-					// If title contains context (e.g., "for muse X"), extract and display prominently
-					if (this.titleText.includes('for')) {
-						// Extract the muse name from the title
-						const match = this.titleText.match(/for (.+)$/);
-						if (match) {
-							const contextInfo = match[1];
-							const infoEl = contentEl.createEl('div', {
-								cls: 'multimuse-scene-context'
-							});
-							infoEl.createEl('strong', { 
-								text: `Creating scene file for: ${contextInfo}`,
-								cls: 'multimuse-scene-context-title'
-							});
-						}
-						contentEl.createEl('p', {
-							text: 'Choose where to create the scene file:',
-							cls: 'multimuse-scene-location-desc'
-						});
-					}
+			new PickerModal(this.app, options, placeholder, resolve).open();
+		});
+	}
 
-					let firstButton: HTMLButtonElement | null = null;
-					this.items.forEach((item, index) => {
-						const button = contentEl.createEl('button', {
-							text: item,
-							cls: ['mod-cta', 'multimuse-suggester-button']
-						});
-						if (!firstButton) {
-							firstButton = button;
-						}
-						button.onclick = () => {
-							this.selectedIndex = index;
-							this.close();
-						};
-					});
+	/** Pick one of `items` by label; resolves with its index, or null when dismissed. */
+	showSuggester<T>(items: string[], _values: T[], title?: string): Promise<number | null> {
+		return this.showPicker(items.map((label, index) => ({ label, value: index })), title || 'Select an option');
+	}
 
-					window.requestAnimationFrame(() => {
-						(firstButton ?? this.modalEl).focus();
-					});
-				}
+	/** Muse picker options: recently used first, searchable by trigger and tags, shared muses marked with their owner. */
+	buildMusePickerOptions(muses: MuseInfo[]): PickerOption<MuseInfo>[] {
+		const recent = this.settings.recentMuses;
+		const rank = (muse: MuseInfo): number => {
+			const index = recent.indexOf(museRecentKey(muse));
+			return index === -1 ? recent.length : index;
+		};
+		return [...muses]
+			.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+			.map((muse) => ({
+				label: muse.name,
+				value: muse,
+				keywords: [muse.trigger, muse.tags].filter(Boolean).join(' '),
+				detail: [
+					rank(muse) < recent.length ? 'Recent' : '',
+					muse.is_shared ? `Shared · owner ${muse.owner_id}` : '',
+					muse.trigger ? `Trigger: ${muse.trigger}` : '',
+					muse.tags ? `Tags: ${muse.tags}` : '',
+				].filter(Boolean).join(' · '),
+				avatarUrl: muse.avatar_url,
+			}));
+	}
 
-				onClose() {
-					resolve(this.selectedIndex);
-				}
-			})(this.app, items, title, this);
+	/**
+	 * Pick one or more muses: the picker reopens after each choice with a Done entry on top.
+	 * Resolves null when cancelled (Esc), even after some muses were picked.
+	 */
+	async chooseMuses(muses: MuseInfo[]): Promise<MuseInfo[] | null> {
+		const selected: MuseInfo[] = [];
+		for (;;) {
+			const options: PickerOption<MuseInfo | 'done'>[] = this.buildMusePickerOptions(muses.filter((muse) => !selected.includes(muse)));
+			if (selected.length > 0) {
+				options.unshift({
+					label: `✓ Done (${selected.map((muse) => muse.name).join(', ')})`,
+					value: 'done',
+					detail: 'Or pick another muse for an ensemble scene',
+					alwaysShow: true,
+				});
+			}
+			if (options.length === 0) {
+				break;
+			}
+			const placeholder = selected.length === 0
+				? 'Select a muse (search by name, trigger or tag)'
+				: 'Add another muse, or choose Done';
+			const choice = await this.showPicker(options, placeholder);
+			if (choice === null) {
+				return null;
+			}
+			if (choice === 'done') {
+				break;
+			}
+			selected.push(choice);
+			await this.recordRecentMuse(choice);
+		}
+		return selected.length > 0 ? selected : null;
+	}
 
-			modal.open();
-		});
+	/** Move a muse to the front of the recently used list. */
+	async recordRecentMuse(muse: MuseInfo): Promise<void> {
+		const key = museRecentKey(muse);
+		this.settings.recentMuses = [key, ...this.settings.recentMuses.filter((entry) => entry !== key)].slice(0, RECENT_MUSES_LIMIT);
+		await this.saveSettings();
 	}
 
 	showInputPrompt(prompt: string, defaultValue?: string): Promise<string | null> {
@@ -2259,6 +4230,113 @@ export default class MultimuseObsidian extends Plugin {
 		});
 	}
 
+	/** Ask for a local date and time; resolves null when cancelled. Past times are rejected. */
+	showDateTimePrompt(prompt: string, defaultValue: Date): Promise<Date | null> {
+		return new Promise((resolve) => {
+			const modal = new (class extends Modal {
+				inputEl!: HTMLInputElement;
+				value: Date | null = null;
+				host: MultimuseObsidian;
+				promptText: string;
+				defaultDate: Date;
+
+				constructor(app: App, host: MultimuseObsidian, promptText: string, defaultDate: Date) {
+					super(app);
+					this.host = host;
+					this.promptText = promptText;
+					this.defaultDate = defaultDate;
+				}
+
+				confirm(): void {
+					const date = new Date(this.inputEl.value);
+					if (isNaN(date.getTime())) {
+						new Notice('Enter a date and time.');
+						return;
+					}
+					if (date.getTime() <= Date.now()) {
+						new Notice('Pick a time in the future.');
+						return;
+					}
+					this.value = date;
+					this.close();
+				}
+
+				onOpen() {
+					this.host.isolateWizardModal(this, () => this.confirm());
+					this.setTitle(this.promptText);
+					const { contentEl } = this;
+					contentEl.empty();
+
+					this.inputEl = contentEl.createEl('input', {
+						type: 'datetime-local',
+						cls: 'multimuse-input',
+					});
+					this.inputEl.value = formatDateTimeInput(this.defaultDate);
+
+					new Setting(contentEl)
+						.addButton((btn) => btn
+							.setButtonText('Schedule')
+							.setCta()
+							.onClick(() => this.confirm()))
+						.addButton((btn) => btn
+							.setButtonText('Cancel')
+							.onClick(() => this.close()));
+
+					window.requestAnimationFrame(() => this.inputEl.focus());
+				}
+
+				onClose() {
+					resolve(this.value);
+				}
+			})(this.app, this, prompt, defaultValue);
+
+			modal.open();
+		});
+	}
+
+	showConfirm(message: string, confirmText = 'Confirm'): Promise<boolean> {
+		return new Promise((resolve) => {
+			const modal = new (class extends Modal {
+				confirmed = false;
+				host: MultimuseObsidian;
+				messageText: string;
+				confirmLabel: string;
+
+				constructor(app: App, host: MultimuseObsidian, messageText: string, confirmLabel: string) {
+					super(app);
+					this.host = host;
+					this.messageText = messageText;
+					this.confirmLabel = confirmLabel;
+				}
+
+				onOpen() {
+					this.host.isolateWizardModal(this);
+					const { contentEl } = this;
+					contentEl.empty();
+					contentEl.createEl('p', { text: this.messageText });
+
+					new Setting(contentEl)
+						.addButton((btn) => btn
+							.setButtonText(this.confirmLabel)
+							.setCta()
+							.onClick(() => {
+								this.confirmed = true;
+								this.close();
+							}))
+						.addButton((btn) => btn
+							.setButtonText('Cancel')
+							.onClick(() => this.close()));
+				}
+
+				onClose() {
+					resolve(this.confirmed);
+				}
+			})(this.app, this, message, confirmText);
+
+			modal.open();
+		});
+	}
+
 	/**
 	 * Fetch guild members from the bot API using guild_id from the current note's Link property,
 	 * then insert a Discord mention <@userId> at the cursor (or replace selection).
@@ -2275,7 +4353,7 @@ export default class MultimuseObsidian extends Plugin {
 			new Notice('No frontmatter. Add a Link property (Discord thread URL) to this note.');
 			return;
 		}
-		const link = frontmatter['Link'];
+		const link = frontmatter[this.prop('link')];
 		if (typeof link !== 'string') {
 			new Notice('No Link property. Add the Discord thread URL to frontmatter to use @ mentions.');
 			return;
@@ -2285,29 +4363,21 @@ export default class MultimuseObsidian extends Plugin {
 			new Notice('Link is not a valid Discord channel URL (could not get server ID).');
 			return;
 		}
-		if (!this.settings.apiKey) {
+		const account = this.resolveAccountForScene(file.path, frontmatter);
+		if (!account?.apiKey) {
 			new Notice('API key required in plugin settings to fetch server members.');
 			return;
 		}
 		let members: GuildMember[];
 		try {
-			const url = `${this.getBotApiUrl()}/api/v1/guilds/${threadInfo.guildId}/members`;
-			const response = await requestUrl({
-				url,
-				method: 'GET',
-				headers: this.getApiHeaders()
-			});
-			if (response.status !== 200) {
-				if (!this.handleApiError(response, 'insertMention - guild members')) {
-					new Notice('Could not load server members. Check API and that the bot is in the server.');
-				}
-				return;
-			}
-			const data = parseJson<GuildMembersResponse>(response.text);
-			members = data.members || [];
+			members = await this.getApiClient(account).getGuildMembers(threadInfo.guildId);
 		} catch (e) {
 			console.error('[MultimuseObsidian] insertMention fetch error:', e);
-			new Notice('Failed to fetch server members. Check connection and API key.');
+			if (!this.handleApiError(e, 'insertMention - guild members')) {
+				new Notice(isApiError(e) && e.kind === 'http'
+					? 'Could not load server members. Check API and that the bot is in the server.'
+					: 'Failed to fetch server members. Check connection and API key.');
+			}
 			return;
 		}
 		if (members.length === 0) {
@@ -2319,13 +4389,17 @@ export default class MultimuseObsidian extends Plugin {
 			const bName = b.display_name || b.username;
 			return aName.localeCompare(bName, undefined, { sensitivity: 'base' });
 		});
-		const labels = sortedMembers.map(m => {
+		const chosen = await this.showPicker(sortedMembers.map((m) => {
 			const d = m.display_name || m.username;
-			return m.username !== d ? `${d} (@${m.username})` : d;
-		});
-		const idx = await this.showSuggester(labels, sortedMembers, 'Insert @ mention – choose user');
-		if (idx === null || idx < 0) return;
-		const chosen = sortedMembers[idx];
+			return {
+				label: d,
+				value: m,
+				keywords: m.username,
+				detail: m.username !== d ? `@${m.username}` : undefined,
+				avatarUrl: m.avatar_url,
+			};
+		}), 'Insert @ mention – search members');
+		if (!chosen) return;
 		const mention = `<@${chosen.id}>`;
 		const editor = view.editor;
 		const sel = editor.getSelection();
@@ -2353,153 +4427,1693 @@ export default class MultimuseObsidian extends Plugin {
 			return;
 		}
 
+		const from = view.editor.posToOffset(editor.getCursor('from'));
+		await this.sendTextAsMuse(file, selection, { path: file.path, raw: selection, offset: from });
+	}
+
+	/** Send the paragraph or heading section at the cursor, or the note's reply draft area. */
+	async sendBlockAsMuse(view: MarkdownView, block: 'paragraph' | 'section' | 'draft'): Promise<void> {
+		const file = view.file;
+		if (!file) {
+			new Notice('No active file found.');
+			return;
+		}
+
+		const lines = view.editor.getValue().split('\n');
+		const cursorLine = view.editor.getCursor().line;
+		let found: NoteBlock | null;
+		switch (block) {
+			case 'paragraph':
+				found = extractParagraph(lines, cursorLine);
+				break;
+			case 'section':
+				found = extractHeadingSection(lines, cursorLine);
+				break;
+			default:
+				found = this.settings.draftArea === 'lastCallout'
+					? extractLastCallout(lines)
+					: extractBelowMarker(lines, this.settings.draftMarker);
+		}
+
+		if (!found || found.text.trim().length === 0) {
+			const messages = {
+				paragraph: 'The cursor is not in a paragraph.',
+				section: 'This heading section is empty.',
+				draft: this.settings.draftArea === 'lastCallout'
+					? 'No callout with text found in this note.'
+					: `No text below a ${this.settings.draftMarker} line in this note.`,
+			};
+			new Notice(messages[block]);
+			return;
+		}
+
+		const source: SentSource = {
+			path: file.path,
+			raw: lines.slice(found.startLine, found.endLine).join('\n'),
+			offset: view.editor.posToOffset({ line: found.startLine, ch: 0 }),
+		};
+		if (block === 'draft' && this.settings.draftArea === 'marker') {
+			source.belowMarker = this.settings.draftMarker;
+		}
+		await this.sendTextAsMuse(file, found.text, source);
+	}
+
+	/** Post text from a scene note: muse selection, wrappers, preview and Replied? update. */
+	async sendTextAsMuse(file: TFile, text: string, source?: SentSource): Promise<void> {
+		const target = await this.resolveMuseTarget(file);
+		if (!target) {
+			return;
+		}
+		const { threadId, selectedMuse, account } = target;
+
+		if (!this.settings.previewBeforeSend) {
+			// With the preview on, this shows once the post is confirmed
+			new Notice(`Sending as ${selectedMuse}…`);
+		}
+
+		const primaryUserId = account?.cachedUserId || await this.getPrimaryUserId(account);
+		if (!primaryUserId) {
+			new Notice('Failed to get user ID from API key. Please check your API key in settings.');
+			return;
+		}
+
+		const postBody: PostMessageRequest = {
+			thread_id: threadId,
+			muse_name: selectedMuse,
+			content: text.trim(),
+			user_id: primaryUserId,
+		};
+
+		void this.deliverPostAsMuse(selectedMuse, primaryUserId, threadId, postBody, file, account, {
+			preview: this.settings.previewBeforeSend,
+			source,
+		});
+	}
+
+	/**
+	 * Thread, muse and account to post as from a scene note's frontmatter, asking which muse
+	 * when Characters lists several. Shows a Notice and returns null when the note is not postable.
+	 */
+	async resolveMuseTarget(file: TFile): Promise<{
+		threadId: string;
+		selectedMuse: string;
+		account: MultimuseAccount | null;
+	} | null> {
 		// Get frontmatter
 		const cache = this.app.metadataCache.getFileCache(file);
 		const frontmatter = this.getFrontmatter(cache);
 		if (!frontmatter) {
 			new Notice('File does not have frontmatter. Please add Link and Characters properties.');
-			return;
+			return null;
 		}
 
 		// Extract link and characters
-		const link = frontmatter?.['Link'];
+		const link = frontmatter?.[this.prop('link')];
 		if (typeof link !== 'string') {
 			new Notice('No Link property found in frontmatter. Please add a Discord thread URL.');
+			return null;
+		}
+
+		const characters = this.getSortedCharacterNames(frontmatter);
+		if (characters.length === 0) {
+			new Notice('No Characters property found in frontmatter. Please add at least one character name.');
+			return null;
+		}
+
+		// Extract thread ID from link
+		const threadId = this.extractThreadIdFromUrl(link);
+		if (!threadId) {
+			new Notice('Invalid Discord URL format in Link property.');
+			return null;
+		}
+
+		// Select muse if multiple characters
+		let selectedMuse: string;
+		if (characters.length === 1) {
+			selectedMuse = characters[0];
+		} else {
+			const museIndex = await this.showSuggester(characters, characters);
+			if (museIndex === null || museIndex < 0) {
+				return null;
+			}
+			selectedMuse = characters[museIndex];
+		}
+
+		return { threadId, selectedMuse, account: this.resolveAccountForScene(file.path, frontmatter) };
+	}
+
+	async scheduleSelectionAsMuse(editor: Editor, view: MarkdownView): Promise<void> {
+		const selection = editor.getSelection();
+		if (!selection || selection.trim().length === 0) {
+			new Notice('No text selected. Please select text to schedule as muse.');
 			return;
 		}
 
-		const characters = this.getSortedCharacterNames(frontmatter);
-		if (characters.length === 0) {
-			new Notice('No Characters property found in frontmatter. Please add at least one character name.');
-			return;
-		}
+		const file = view.file;
+		if (!file) {
+			new Notice('No active file found.');
+			return;
+		}
+
+		const target = await this.resolveMuseTarget(file);
+		if (!target) {
+			return;
+		}
+
+		// Settle which muse now: the post is sent later from a timer, where asking would be out of place
+		const museId = await this.resolveScheduledMuseId(file, target.selectedMuse, target.account);
+		if (museId === undefined) {
+			return;
+		}
+
+		// Default to the next full hour
+		const initial = new Date();
+		initial.setHours(initial.getHours() + 1, 0, 0, 0);
+		const scheduledAt = await this.showDateTimePrompt(`Schedule as ${target.selectedMuse}`, initial);
+		if (!scheduledAt) {
+			return;
+		}
+
+		this.settings.scheduledPosts.push({
+			id: createOutboxId(),
+			scheduledAt: scheduledAt.getTime(),
+			createdAt: Date.now(),
+			scenePath: file.path,
+			museName: target.selectedMuse,
+			threadId: target.threadId,
+			accountId: target.account?.id ?? null,
+			content: selection.trim(),
+			museId,
+		});
+		await this.saveSettings();
+		new Notice(`Scheduled as ${target.selectedMuse} for ${scheduledAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`);
+	}
+
+	/**
+	 * Muse id a scheduled post should go out as, asking now when several muses match (the choice is
+	 * pinned to the scene). Null when the muse list is unavailable (resolved at send time);
+	 * undefined when cancelled or no muse matches.
+	 */
+	private async resolveScheduledMuseId(
+		file: TFile,
+		selectedMuse: string,
+		account: MultimuseAccount | null
+	): Promise<string | null | undefined> {
+		const userId = account?.cachedUserId || await this.getPrimaryUserId(account);
+		if (!userId) {
+			return null;
+		}
+		let muses: MuseInfo[];
+		try {
+			muses = await this.getMusesForUserIds([userId], undefined, account);
+		} catch (error) {
+			console.warn('[MultimuseObsidian] Could not fetch muses while scheduling:', getErrorMessage(error));
+			return null;
+		}
+		if (muses.length === 0) {
+			return null;
+		}
+		const pinnedId = this.getPinnedMuseId(this.getFrontmatter(this.app.metadataCache.getFileCache(file)), selectedMuse);
+		const candidates = this.findMuseMatches(muses, selectedMuse, pinnedId);
+		const muse = await this.chooseMuseMatch(candidates, selectedMuse);
+		if (muse === null) {
+			new Notice('Scheduling cancelled.');
+			return undefined;
+		}
+		if (!muse) {
+			new Notice(`Muse "${selectedMuse}" not found. Available: ${muses.map(m => m.name).join(', ')}`);
+			return undefined;
+		}
+		if (candidates.length > 1 && muse.muse_id) {
+			await this.pinSceneMuseId(file, selectedMuse, String(muse.muse_id));
+		}
+		return muse.muse_id ? String(muse.muse_id) : null;
+	}
+
+	/** Send scheduled posts whose time has come (except overdue ones held at launch). */
+	runScheduledPosts(): Promise<void> {
+		if (this.scheduledPostsPromise === null) {
+			this.scheduledPostsPromise = this.sendDueScheduledPosts().finally(() => {
+				this.scheduledPostsPromise = null;
+			});
+		}
+		return this.scheduledPostsPromise;
+	}
+
+	private async sendDueScheduledPosts(): Promise<void> {
+		const now = Date.now();
+		const due = this.settings.scheduledPosts.filter((post) =>
+			post.scheduledAt <= now && !this.heldScheduledPostIds.has(post.id)
+		);
+		for (const post of due) {
+			// An earlier delivery may have taken a while; skip posts cancelled or sent meanwhile
+			if (this.settings.scheduledPosts.includes(post) && !this.heldScheduledPostIds.has(post.id)) {
+				await this.sendScheduledPost(post);
+			}
+		}
+	}
+
+	/** Posts that came due while Obsidian was closed are only sent after a confirmation. */
+	private async catchUpScheduledPosts(): Promise<void> {
+		const now = Date.now();
+		const overdue = this.settings.scheduledPosts.filter((post) => post.scheduledAt <= now);
+		if (overdue.length === 0) {
+			return;
+		}
+		overdue.forEach((post) => this.heldScheduledPostIds.add(post.id));
+
+		const confirmed = await this.showConfirm(
+			`${overdue.length} scheduled post(s) came due while Obsidian was closed. Send them now? Otherwise they stay listed under "Show scheduled posts" to reschedule or cancel.`,
+			'Send now'
+		);
+		if (!confirmed) {
+			return;
+		}
+		for (const post of overdue) {
+			this.heldScheduledPostIds.delete(post.id);
+			if (this.settings.scheduledPosts.includes(post)) {
+				await this.sendScheduledPost(post);
+			}
+		}
+	}
+
+	/**
+	 * Deliver a scheduled post; it leaves the queue once sent or handed to the outbox. A post that
+	 * could not go out is held until the user sends or reschedules it. Only an interactive send
+	 * ("Send now") may ask which muse to use.
+	 */
+	async sendScheduledPost(post: ScheduledPost, opts?: { interactive?: boolean }): Promise<void> {
+		if (this.sendingScheduledPostIds.has(post.id) || !this.settings.scheduledPosts.includes(post)) {
+			return;
+		}
+		this.sendingScheduledPostIds.add(post.id);
+		try {
+			if (await this.deliverScheduledPost(post, opts?.interactive ?? false)) {
+				await this.removeScheduledPost(post.id);
+			} else {
+				this.heldScheduledPostIds.add(post.id);
+			}
+		} finally {
+			this.sendingScheduledPostIds.delete(post.id);
+		}
+	}
+
+	private async deliverScheduledPost(post: ScheduledPost, interactive: boolean): Promise<boolean> {
+
+		const sceneFile = this.app.vault.getAbstractFileByPath(post.scenePath);
+		const frontmatter = sceneFile instanceof TFile
+			? this.getFrontmatter(this.app.metadataCache.getFileCache(sceneFile))
+			: null;
+		const account = (post.accountId ? this.findAccount(post.accountId) : null)
+			?? this.resolveAccountForScene(post.scenePath, frontmatter);
+		const primaryUserId = account?.cachedUserId || await this.getPrimaryUserId(account);
+		if (!primaryUserId) {
+			// Keep the post so it is not lost; the user can send it once the API key is fixed.
+			new Notice(`Scheduled post as ${post.museName} not sent: failed to get user ID from API key.`);
+			return false;
+		}
+
+		new Notice(`Sending scheduled post as ${post.museName}…`);
+		return this.deliverPostAsMuse(
+			post.museName,
+			primaryUserId,
+			post.threadId,
+			{
+				thread_id: post.threadId,
+				muse_name: post.museName,
+				content: post.content,
+				user_id: primaryUserId,
+			},
+			sceneFile instanceof TFile ? sceneFile : undefined,
+			account,
+			{ museId: post.museId, background: !interactive }
+		);
+	}
+
+	async removeScheduledPost(id: string): Promise<void> {
+		this.settings.scheduledPosts = this.settings.scheduledPosts.filter((post) => post.id !== id);
+		this.heldScheduledPostIds.delete(id);
+		await this.saveSettings();
+	}
+
+	/** Release a held (overdue) scheduled post after the user reschedules it. */
+	releaseScheduledPost(id: string): void {
+		this.heldScheduledPostIds.delete(id);
+	}
+
+	private async applyMuseWrappersToPost(
+		postBody: PostMessageRequest,
+		threadId: string,
+		primaryUserId: string,
+		matchedMuse: MuseInfo,
+		selectedMuse: string,
+		account?: MultimuseAccount | null
+	): Promise<{ header: string; footer: string }> {
+		const icRaw = postBody.content;
+		const wrappers = await this.resolveMuseWrappers(
+			threadId,
+			primaryUserId,
+			matchedMuse,
+			selectedMuse,
+			account
+		);
+		if (wrappers.header || wrappers.footer) {
+			setPostContent(postBody, icRaw, wrappers.header, wrappers.footer);
+		}
+		return wrappers;
+	}
+
+	/**
+	 * Show the post preview and apply any edits to `postBody`.
+	 * @returns the (possibly edited) text without wrappers, or null when the user cancelled
+	 */
+	private async confirmPostPreview(
+		selectedMuse: string,
+		postBody: PostMessageRequest,
+		ic: string,
+		header: string,
+		footer: string,
+		formatWarnings: string[] = []
+	): Promise<string | null> {
+		const edited = await new Promise<string | null>((resolve) => {
+			new PostPreviewModal(this.app, selectedMuse, ic, header, footer, formatWarnings, resolve).open();
+		});
+		if (edited === null) {
+			new Notice('Send cancelled.');
+			return null;
+		}
+		setPostContent(postBody, edited, header, footer);
+		return edited;
+	}
+
+	private async deliverPostAsMuse(
+		selectedMuse: string,
+		primaryUserId: string,
+		threadId: string,
+		postBody: PostMessageRequest,
+		sceneFile?: TFile,
+		account?: MultimuseAccount | null,
+		opts?: { preview?: boolean; source?: SentSource; museId?: string | null; background?: boolean }
+	): Promise<boolean> {
+		// Rewrite Obsidian-only syntax first so wrapper budgets and the preview see what Discord gets.
+		const formatted = convertToDiscordMarkdown(postBody.content, this.settings.discordFormatting);
+		if (!formatted.text.trim()) {
+			new Notice('Nothing to send once comments and embeds are removed.');
+			return false;
+		}
+		postBody.content = formatted.text;
+		if (formatted.warnings.length > 0 && !opts?.preview) {
+			new Notice(`Posting as ${selectedMuse} with formatting Discord will not render: ${formatted.warnings.join('; ')}.`);
+		}
+		const icRaw = postBody.content;
+		let source = opts?.source;
+		// Text edited in the preview is what gets marked in the note, not the original draft
+		const trackEdit = (edited: string): void => {
+			if (source && edited !== icRaw) {
+				source = { ...source, sent: edited };
+			}
+		};
+		// One key per post: a queued retry of a post the bot already accepted is dropped server-side.
+		const idempotencyKey = createOutboxId();
+		const queueIfUnsent = async (reason: string): Promise<void> => {
+			await this.queueOutboxPost({
+				id: idempotencyKey,
+				createdAt: Date.now(),
+				scenePath: sceneFile?.path ?? null,
+				museName: selectedMuse,
+				accountId: account?.id ?? null,
+				postBody,
+				attempts: 1,
+				nextAttemptAt: Date.now() + outboxRetryDelay(1),
+				lastError: reason,
+				failed: false,
+				source,
+			});
+			new Notice(`Could not send as ${selectedMuse} (${reason}). The post is queued in the outbox and will be retried.`);
+		};
+
+		if (!navigator.onLine) {
+			// Wrappers cannot be resolved offline; the bot applies them when the queued post goes out.
+			if (opts?.preview) {
+				const edited = await this.confirmPostPreview(selectedMuse, postBody, icRaw, '', '', formatted.warnings);
+				if (edited === null) {
+					return false;
+				}
+				trackEdit(edited);
+			}
+			await queueIfUnsent('offline');
+			return true;
+		}
+
+		try {
+			await this.yieldPollSlot();
+
+			const pinnedId = opts?.museId || (sceneFile
+				? this.getPinnedMuseId(this.getFrontmatter(this.app.metadataCache.getFileCache(sceneFile)), selectedMuse)
+				: null);
+			let muses = this.museCache.get(primaryUserId) ?? [];
+			let candidates = this.findMuseMatches(muses, selectedMuse, pinnedId);
+			if (!candidates.some((m) => m.muse_id)) {
+				muses = await this.getMusesForUserIds([primaryUserId], { forceRefresh: true }, account);
+				candidates = this.findMuseMatches(muses, selectedMuse, pinnedId);
+			}
+			if (candidates.length > 1 && opts?.background) {
+				// Never pop up a picker from a timer; the caller keeps the post for the user to send
+				new Notice(`Post as ${selectedMuse} not sent: several muses match "${selectedMuse}". Send it from the list to choose one.`);
+				return false;
+			}
+			let matchedMuse = await this.chooseMuseMatch(candidates, selectedMuse);
+			if (matchedMuse === null) {
+				new Notice('Send cancelled.');
+				return false;
+			}
+			if (!matchedMuse && muses.length > 0) {
+				new Notice(`Muse "${selectedMuse}" not found. Available: ${muses.map(m => m.name).join(', ')}`);
+				return false;
+			}
+			if (candidates.length > 1 && matchedMuse?.muse_id && sceneFile) {
+				// Remember the choice so this scene does not ask again
+				await this.pinSceneMuseId(sceneFile, selectedMuse, String(matchedMuse.muse_id));
+			}
+			if (matchedMuse?.muse_id) {
+				postBody.muse_id = matchedMuse.muse_id;
+			}
+			let wrappers = { header: '', footer: '' };
+			if (matchedMuse) {
+				wrappers = await this.applyMuseWrappersToPost(
+					postBody,
+					threadId,
+					primaryUserId,
+					matchedMuse,
+					selectedMuse,
+					account
+				);
+			}
+			let ic = icRaw;
+			if (opts?.preview) {
+				const edited = await this.confirmPostPreview(selectedMuse, postBody, icRaw, wrappers.header, wrappers.footer, formatted.warnings);
+				if (edited === null) {
+					return false;
+				}
+				ic = edited;
+				trackEdit(edited);
+				new Notice(`Sending as ${selectedMuse}…`);
+			}
+			if (matchedMuse) {
+				await this.recordRecentMuse(matchedMuse);
+			}
+
+			// Client-side splitting needs the muse's wrappers, so it only applies once the muse is matched.
+			const chunks = this.settings.clientChunking && matchedMuse
+				? splitPostChunks(ic, wrappers.header, wrappers.footer)
+				: [ic];
+			if (chunks.length > 1) {
+				await this.postChunksAsMuse(selectedMuse, postBody, chunks, wrappers, idempotencyKey, sceneFile, account, source);
+				return true;
+			}
+
+			const client = this.getApiClient(account);
+			let result: PostMessageResult;
+			try {
+				result = await client.postMessage(postBody, { idempotencyKey });
+			} catch (error) {
+				// 403 without a cached match usually means a stale muse list; refresh and retry once.
+				if (!isApiError(error) || error.status !== 403 || matchedMuse) {
+					throw error;
+				}
+				muses = await this.getMusesForUserIds([primaryUserId], { forceRefresh: true }, account);
+				matchedMuse = await this.chooseMuseMatch(this.findMuseMatches(muses, selectedMuse, pinnedId), selectedMuse);
+				if (matchedMuse === null) {
+					new Notice('Send cancelled.');
+					return false;
+				}
+				if (!matchedMuse) {
+					if (muses.length > 0) {
+						new Notice(`Muse "${selectedMuse}" not found. Available: ${muses.map(m => m.name).join(', ')}`);
+						return false;
+					}
+					throw error;
+				}
+				if (matchedMuse.muse_id) {
+					postBody.muse_id = matchedMuse.muse_id;
+				}
+				if (!postBody.wrappers_preapplied) {
+					await this.applyMuseWrappersToPost(
+						postBody,
+						threadId,
+						primaryUserId,
+						matchedMuse,
+						selectedMuse,
+						account
+					);
+				}
+				result = await client.postMessage(postBody, { idempotencyKey });
+			}
+
+			new Notice(`Message sent as ${selectedMuse}!`);
+			if (sceneFile) {
+				await this.updateFrontmatter(sceneFile, this.buildTurnUpdates(true));
+			}
+			if (source) {
+				await this.markSentText(source, selectedMuse, threadId, result.messageId);
+			}
+			void this.syncMuses();
+			return true;
+		} catch (error) {
+			if (isApiError(error) && (error.isTransient || error.isRateLimited)) {
+				console.warn('[MultimuseObsidian] Post failed, queueing in outbox:', error);
+				await queueIfUnsent(error.message);
+				return true;
+			}
+			if (!this.handleApiError(error, 'sendSelectionAsMuse - post message')) {
+				console.error('Error sending message:', error);
+				new Notice(`Failed to send message: ${getErrorMessage(error)}`);
+			}
+			return false;
+		}
+	}
+
+	/**
+	 * Post a split post one message at a time, in order. When a message fails, it and every later
+	 * part go to the outbox, where they are retried in order (a rejected part holds the rest back).
+	 */
+	private async postChunksAsMuse(
+		selectedMuse: string,
+		postBody: PostMessageRequest,
+		chunks: string[],
+		wrappers: { header: string; footer: string },
+		idempotencyKey: string,
+		sceneFile?: TFile,
+		account?: MultimuseAccount | null,
+		source?: SentSource
+	): Promise<void> {
+		const total = chunks.length;
+		const bodies = chunks.map((chunk, index): PostMessageRequest => {
+			const body: PostMessageRequest = {
+				...postBody,
+				content: composeChunkForSend(chunk, wrappers.header, wrappers.footer, DISCORD_MESSAGE_BUDGET, {
+					isFirst: index === 0,
+					isLast: index === total - 1,
+				}),
+			};
+			if (wrappers.header || wrappers.footer) {
+				body.wrappers_preapplied = true;
+			} else {
+				delete body.wrappers_preapplied;
+			}
+			return body;
+		});
+
+		const client = this.getApiClient(account);
+		const progress = new Notice(`Sending as ${selectedMuse}: message 1 of ${total}…`, 0);
+		let firstMessageId: string | null = null;
+		for (let index = 0; index < total; index++) {
+			progress.setMessage(`Sending as ${selectedMuse}: message ${index + 1} of ${total}…`);
+			try {
+				const result = await client.postMessage(bodies[index], { idempotencyKey: `${idempotencyKey}-${index + 1}` });
+				firstMessageId = firstMessageId ?? result.messageId;
+			} catch (error) {
+				progress.hide();
+				const retryable = !navigator.onLine || (isApiError(error) && (error.isTransient || error.isRateLimited));
+				const reason = getErrorMessage(error);
+				const nextAttemptAt = Date.now() + outboxRetryDelay(1);
+				for (let rest = index; rest < total; rest++) {
+					this.settings.outbox.push({
+						id: `${idempotencyKey}-${rest + 1}`,
+						createdAt: Date.now(),
+						scenePath: sceneFile?.path ?? null,
+						museName: selectedMuse,
+						accountId: account?.id ?? null,
+						postBody: bodies[rest],
+						attempts: rest === index ? 1 : 0,
+						nextAttemptAt,
+						lastError: rest === index ? reason : null,
+						failed: rest === index && !retryable,
+						source: rest === total - 1 ? source : undefined,
+						chunk: { index: rest + 1, total },
+					});
+				}
+				await this.saveSettings();
+				this.updateStatusBar();
+				console.warn(`[MultimuseObsidian] Split post stopped at message ${index + 1} of ${total}:`, error);
+				this.handleApiError(error, 'sendSelectionAsMuse - post split message');
+				new Notice(retryable
+					? `Sent ${index} of ${total} messages as ${selectedMuse}. Message ${index + 1} failed (${reason}); it and the rest are queued in the outbox and will be retried in order.`
+					: `Sent ${index} of ${total} messages as ${selectedMuse}. Message ${index + 1} was rejected (${reason}); it and the rest are held in the outbox to edit, send or cancel.`);
+				return;
+			}
+		}
+		progress.hide();
+
+		new Notice(`Message sent as ${selectedMuse} (${total} messages)!`);
+		if (sceneFile) {
+			await this.updateFrontmatter(sceneFile, this.buildTurnUpdates(true));
+		}
+		if (source) {
+			await this.markSentText(source, selectedMuse, postBody.thread_id, firstMessageId);
+		}
+		void this.syncMuses();
+	}
+
+	private async queueOutboxPost(entry: OutboxEntry): Promise<void> {
+		this.settings.outbox.push(entry);
+		await this.saveSettings();
+		this.updateStatusBar();
+	}
+
+	/** Drop a queued post (sent or cancelled). */
+	async removeOutboxEntry(id: string): Promise<void> {
+		this.settings.outbox = this.settings.outbox.filter((entry) => entry.id !== id);
+		await this.saveSettings();
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Retry queued posts whose backoff has elapsed (all non-failed ones with force).
+	 * Overlapping calls share the running flush.
+	 */
+	flushOutbox(opts?: { force?: boolean }): Promise<void> {
+		if (this.outboxFlushPromise === null) {
+			this.outboxFlushPromise = this.runOutboxFlush(opts).finally(() => {
+				this.outboxFlushPromise = null;
+			});
+		}
+		return this.outboxFlushPromise;
+	}
+
+	private async runOutboxFlush(opts?: { force?: boolean }): Promise<void> {
+		if (!navigator.onLine || this.settings.outbox.length === 0) {
+			return;
+		}
+		const now = Date.now();
+		// Threads with an earlier post still waiting: later posts to them wait too, so they land in order.
+		// A rejected post holds nothing back, unless it is part of a split post: then everything after
+		// it in that thread waits, so the rest of that post still lands before anything newer.
+		const waitingThreads = new Set<string>();
+		for (const entry of [...this.settings.outbox]) {
+			const threadId = entry.postBody.thread_id;
+			if (waitingThreads.has(threadId)) {
+				continue;
+			}
+			if (entry.failed || (!opts?.force && entry.nextAttemptAt > now)) {
+				if (!entry.failed || entry.chunk) {
+					waitingThreads.add(threadId);
+				}
+				continue;
+			}
+			const sent = await this.sendOutboxEntry(entry);
+			if (!sent) {
+				if (!navigator.onLine) {
+					break;
+				}
+				waitingThreads.add(threadId);
+			}
+		}
+	}
+
+	/**
+	 * Send one queued post from the outbox modal. Takes the flush lock, so a timer or online flush
+	 * cannot post the same entry at the same time.
+	 */
+	async sendOutboxEntryNow(entry: OutboxEntry): Promise<boolean> {
+		while (this.outboxFlushPromise !== null) {
+			await this.outboxFlushPromise;
+		}
+		const index = this.settings.outbox.indexOf(entry);
+		if (index === -1) {
+			// The flush we waited for already sent (or dropped) it
+			return false;
+		}
+		// Same ordering rule as runOutboxFlush: nothing jumps ahead of a post still waiting in its thread
+		const earlier = this.settings.outbox.slice(0, index).find((other) =>
+			other.postBody.thread_id === entry.postBody.thread_id && (!other.failed || other.chunk));
+		if (earlier) {
+			new Notice(`Send the earlier queued post as ${earlier.museName}${earlier.chunk ? ` (message ${earlier.chunk.index} of ${earlier.chunk.total})` : ''} to this thread first, or cancel it.`);
+			return false;
+		}
+		let sent = false;
+		this.outboxFlushPromise = this.sendOutboxEntry(entry)
+			.then((result) => {
+				sent = result;
+			})
+			.finally(() => {
+				this.outboxFlushPromise = null;
+			});
+		await this.outboxFlushPromise;
+		return sent;
+	}
+
+	/**
+	 * Replace a queued post's text. A new idempotency key goes with it: if the old text reached the
+	 * bot after all, the edited post would otherwise be dropped as a repeat.
+	 */
+	async editOutboxEntry(entry: OutboxEntry, content: string): Promise<void> {
+		if (content === entry.postBody.content) {
+			return;
+		}
+		entry.postBody.content = content;
+		entry.id = createOutboxId();
+		await this.saveSettings();
+	}
+
+	/** Send one queued post now. Marks the scene replied only once the bot accepts it. */
+	private async sendOutboxEntry(entry: OutboxEntry): Promise<boolean> {
+		const account = entry.accountId ? this.findAccount(entry.accountId) : this.getDefaultAccount();
+		if (!account) {
+			// The post carries that account's user id; sending it with another key would post as someone else
+			entry.failed = true;
+			entry.lastError = 'its account was removed';
+			await this.saveSettings();
+			this.updateStatusBar();
+			new Notice(`Queued post as ${entry.museName} was not sent: its account was removed. Open the outbox to cancel it.`);
+			return false;
+		}
+		entry.attempts++;
+		let result: PostMessageResult;
+		try {
+			result = await this.getApiClient(account).postMessage(entry.postBody, { idempotencyKey: entry.id });
+		} catch (error) {
+			entry.lastError = getErrorMessage(error);
+			if (isApiError(error) && (error.isTransient || error.isRateLimited)) {
+				entry.nextAttemptAt = Date.now() + outboxRetryDelay(entry.attempts);
+			} else {
+				entry.failed = true;
+				if (!this.handleApiError(error, 'outbox - post message')) {
+					new Notice(`Queued post as ${entry.museName} was rejected: ${entry.lastError}. Open the outbox to edit or cancel it.`);
+				}
+			}
+			await this.saveSettings();
+			this.updateStatusBar();
+			return false;
+		}
+
+		await this.removeOutboxEntry(entry.id);
+		new Notice(entry.chunk
+			? `Queued message ${entry.chunk.index} of ${entry.chunk.total} sent as ${entry.museName}!`
+			: `Queued post sent as ${entry.museName}!`);
+		const sceneFile = entry.scenePath ? this.app.vault.getAbstractFileByPath(entry.scenePath) : null;
+		if (sceneFile instanceof TFile) {
+			await this.updateFrontmatter(sceneFile, this.buildTurnUpdates(true));
+		}
+		if (entry.source) {
+			await this.markSentText(entry.source, entry.museName, entry.postBody.thread_id, result.messageId);
+		}
+		return true;
+	}
+
+	/**
+	 * Apply the configured Sent text action to a posted range. The note may have been edited since
+	 * the send, so the original text is looked up again near where it was; if it is gone, nothing changes.
+	 */
+	async markSentText(source: SentSource, museName: string, threadId: string, messageId: string | null): Promise<void> {
+		const action = this.settings.sentTextAction;
+		const messageUrl = this.buildSentMessageUrl(source.path, threadId, messageId);
+		if (action === 'none' && !messageUrl) {
+			return;
+		}
+		const file = this.app.vault.getAbstractFileByPath(source.path);
+		if (!(file instanceof TFile) || !source.raw.trim()) {
+			return;
+		}
+
+		let marked = false;
+		const mark = (content: string): string => {
+			const start = content.slice(source.offset, source.offset + source.raw.length) === source.raw
+				? source.offset
+				: findNearestOccurrence(content, source.raw, source.offset);
+			if (start === -1) {
+				return content;
+			}
+			marked = true;
+			const end = start + source.raw.length;
+			const text = source.sent
+				?? (source.raw.startsWith('>') ? source.raw.replace(/^>\s*\[![^\]]*\][^\n]*\n?/, '').replace(/^>\s?/gm, '') : source.raw);
+			const stamp = `Sent as ${museName} · ${formatNoteTimestamp(new Date())}${messageUrl ? ` · [Discord](${messageUrl})` : ''}`;
+
+			let replacement: string;
+			switch (action) {
+				case 'callout':
+					replacement = [`> [!quote] ${stamp}`, ...text.split('\n').map((line) => `> ${line}`.trimEnd())].join('\n');
+					break;
+				case 'strike':
+					replacement = text.split('\n').map((line) => line.trim() ? `~~${line}~~` : line).join('\n')
+						+ (messageUrl ? ` [Discord](${messageUrl})` : '');
+					break;
+				case 'sentSection': {
+					// Close the gap the text leaves behind, keeping at most one blank line there
+					const head = content.slice(0, start).replace(/\n+$/, '');
+					const tail = content.slice(end).replace(/^\n+/, '');
+					const gap = Math.min(2, (start - head.length) + (content.length - end - tail.length));
+					const remaining = head ? head + '\n'.repeat(gap) + tail : tail;
+					return appendToSection(remaining, SENT_SECTION_HEADING, ['', `**${stamp}**`, text.trim()]);
+				}
+				default:
+					replacement = `${source.sent ?? source.raw}\n${stamp}`;
+			}
+
+			if (source.belowMarker) {
+				// Keep the draft area empty for the next reply: file the marked text above the marker.
+				const markerIndex = content.lastIndexOf(source.belowMarker, start);
+				if (markerIndex !== -1) {
+					const lineStart = content.lastIndexOf('\n', markerIndex) + 1;
+					return `${content.slice(0, lineStart)}${replacement.trim()}\n\n${content.slice(lineStart, start)}${content.slice(end)}`;
+				}
+			}
+			return content.slice(0, start) + replacement + content.slice(end);
+		};
+
+		// An open note may hold unsaved edits, so change it through its editor rather than on disk
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view?.file === file) {
+			const editor = view.editor;
+			const before = editor.getValue();
+			const after = mark(before);
+			if (after !== before) {
+				let prefix = 0;
+				while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+					prefix++;
+				}
+				let suffix = 0;
+				while (suffix < before.length - prefix && suffix < after.length - prefix
+					&& before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+					suffix++;
+				}
+				editor.replaceRange(
+					after.slice(prefix, after.length - suffix),
+					editor.offsetToPos(prefix),
+					editor.offsetToPos(before.length - suffix)
+				);
+			}
+		} else {
+			await this.app.vault.process(file, mark);
+		}
+
+		if (!marked) {
+			new Notice('Sent text was changed in the note, so it was not marked as sent.');
+		}
+	}
+
+	/**
+	 * "<log folder>/<scene path under the scenes folder> Log.md". Log notes live outside the scenes
+	 * folder so they are never taken for scenes (polling, Base, pasted links). Null when the log
+	 * folder is unset or inside the scenes folder.
+	 */
+	getThreadLogNotePath(file: TFile): string | null {
+		const logFolder = this.settings.threadLogFolder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+		const scenesFolder = this.settings.scenesFolder;
+		if (!logFolder || logFolder === scenesFolder || logFolder.startsWith(`${scenesFolder}/`)) {
+			return null;
+		}
+		const relative = file.path.startsWith(`${scenesFolder}/`) ? file.path.slice(scenesFolder.length + 1) : file.path;
+		return `${logFolder}/${relative.replace(/\.md$/, '')} Log.md`;
+	}
+
+	/** Discord link to a posted message, when enabled and the bot reported its id. */
+	private buildSentMessageUrl(scenePath: string, threadId: string, messageId: string | null): string | null {
+		if (!this.settings.sentTextLink || !messageId) {
+			return null;
+		}
+		const file = this.app.vault.getAbstractFileByPath(scenePath);
+		const frontmatter = file instanceof TFile ? this.getFrontmatter(this.app.metadataCache.getFileCache(file)) : null;
+		const link = frontmatter?.[this.prop('link')];
+		const guildId = typeof link === 'string' ? this.extractThreadInfoFromUrl(link)?.guildId : null;
+		return guildId ? `https://discord.com/channels/${guildId}/${threadId}/${messageId}` : null;
+	}
+
+	/**
+	 * Import messages posted in the scene's thread since the last pull (all of them the first time)
+	 * and record the newest message id in the cursor property. Background pulls (from polling)
+	 * share the poll request queue and only log failures.
+	 */
+	async pullThreadLog(file: TFile, opts?: { background?: boolean }): Promise<void> {
+		const background = opts?.background ?? false;
+		const notify = (message: string): void => {
+			if (background) {
+				console.log(`[MultimuseObsidian] ${file.basename}: ${message}`);
+			} else {
+				new Notice(message);
+			}
+		};
+		const frontmatter = this.getFrontmatter(this.app.metadataCache.getFileCache(file));
+		const link = frontmatter?.[this.prop('link')];
+		const threadInfo = typeof link === 'string' ? this.extractThreadInfoFromUrl(link) : null;
+		if (!frontmatter || !threadInfo) {
+			notify('No Link property. Add the Discord thread URL to frontmatter to pull the thread log.');
+			return;
+		}
+		const account = this.resolveAccountForScene(file.path, frontmatter);
+		const userId = account?.cachedUserId || await this.getPrimaryUserId(account);
+		if (!account?.apiKey || !userId) {
+			notify('API key required in plugin settings to pull the thread log.');
+			return;
+		}
+		if (this.threadLogPulls.has(file.path)) {
+			return;
+		}
+
+		this.threadLogPulls.add(file.path);
+		try {
+			const cursor = frontmatterValueToString(frontmatter[this.prop('logCursor')]).trim() || null;
+			const client = this.getApiClient(account, { queued: background });
+			const fetchMessages = (): Promise<ThreadMessage[]> =>
+				client.getThreadMessages({ threadId: threadInfo.threadId, userId, after: cursor });
+			let messages: ThreadMessage[];
+			try {
+				messages = background ? await this.enqueuePollGet(fetchMessages) : await fetchMessages();
+			} catch (e) {
+				console.error('[MultimuseObsidian] pullThreadLog fetch error:', e);
+				if (!background && !this.handleApiError(e, 'pullThreadLog')) {
+					new Notice(isApiError(e) && e.kind === 'http'
+						? 'Could not load the thread. Check the Link and that the bot can read the channel.'
+						: 'Failed to pull the thread log. Check connection and API key.');
+				}
+				return;
+			}
+
+			messages = messages.filter((message) => String(message.id) !== cursor);
+			if (messages.length === 0) {
+				notify('Thread log is up to date.');
+				return;
+			}
+
+			const entries = messages.map((message) => this.formatThreadLogEntry(message, threadInfo));
+			if (this.settings.threadLogTarget === 'sibling') {
+				const logPath = this.getThreadLogNotePath(file);
+				if (!logPath) {
+					notify('Set a log notes folder outside the scenes folder in settings (Thread log).');
+					return;
+				}
+				const logFile = this.app.vault.getAbstractFileByPath(logPath);
+				if (logFile instanceof TFile) {
+					await this.app.vault.process(logFile, (content) => `${content.trimEnd()}\n\n${entries.join('\n\n')}\n`);
+				} else {
+					await this.ensureFolderPathExists(logPath.slice(0, logPath.lastIndexOf('/')));
+					await this.app.vault.create(logPath, `Thread log for [[${file.path.replace(/\.md$/, '')}|${file.basename}]]\n\n${entries.join('\n\n')}\n`);
+				}
+			} else {
+				await this.app.vault.process(file, (content) =>
+					appendToSection(content, THREAD_LOG_HEADING, entries.flatMap((entry) => ['', entry])));
+			}
+
+			await this.updateFrontmatter(file, { [this.prop('logCursor')]: String(messages[messages.length - 1].id) });
+			notify(`Pulled ${messages.length} message${messages.length === 1 ? '' : 's'} into the thread log.`);
+		} catch (e) {
+			console.error('[MultimuseObsidian] pullThreadLog error:', e);
+			if (!background) {
+				new Notice(`Failed to write the thread log: ${e instanceof Error ? e.message : String(e)}`);
+			}
+		} finally {
+			this.threadLogPulls.delete(file.path);
+		}
+	}
+
+	/** "**Name** · time · [Discord](link)" followed by the message text (headings escaped so they stay inside the log). */
+	private formatThreadLogEntry(message: ThreadMessage, threadInfo: { threadId: string; guildId: string | null }): string {
+		const name = message.muse_name || message.author_name || 'Unknown';
+		const date = message.timestamp ? new Date(message.timestamp) : null;
+		const parts = [`**${name}**`];
+		if (date && !Number.isNaN(date.getTime())) {
+			parts.push(formatNoteTimestamp(date));
+		}
+		if (threadInfo.guildId) {
+			parts.push(`[Discord](https://discord.com/channels/${threadInfo.guildId}/${threadInfo.threadId}/${message.id})`);
+		}
+		const text = (message.content || '').trim().replace(/^(#{1,6}\s)/gm, '\\$1');
+		return text ? `${parts.join(' · ')}\n${text}` : parts.join(' · ');
+	}
+}
+
+/** Dockable overview of every scene note, grouped by Roleplay, with quick actions per scene. */
+class SceneDashboardView extends ItemView {
+	plugin: MultimuseObsidian;
+	showInactive = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MultimuseObsidian) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_SCENE_DASHBOARD;
+	}
+
+	getDisplayText(): string {
+		return 'MultiMuse scenes';
+	}
+
+	getIcon(): string {
+		return 'layout-list';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('multimuse-dashboard');
+
+		const toolbarEl = contentEl.createDiv({ cls: 'multimuse-dashboard-toolbar' });
+		const inactiveLabel = toolbarEl.createEl('label');
+		const inactiveToggle = inactiveLabel.createEl('input', { type: 'checkbox' });
+		inactiveToggle.checked = this.showInactive;
+		inactiveToggle.onchange = () => {
+			this.showInactive = inactiveToggle.checked;
+			this.render();
+		};
+		inactiveLabel.appendText(' Show inactive');
+		this.createIconButton(toolbarEl, 'refresh-cw', 'Check all scenes now', () => {
+			void this.plugin.checkAllThreads({ force: true });
+		});
+
+		const groups = new Map<string, TFile[]>();
+		for (const file of this.plugin.getSceneFiles()) {
+			const frontmatter = this.plugin.getFrontmatter(this.app.metadataCache.getFileCache(file));
+			if (!frontmatter) continue;
+			if (!this.showInactive && !this.plugin.isSceneMarkedActive(frontmatter)) continue;
+			const roleplay = this.plugin.extractRoleplayFromPath(file.parent?.path ?? '') ?? 'Other';
+			const group = groups.get(roleplay) ?? [];
+			group.push(file);
+			groups.set(roleplay, group);
+		}
+
+		if (groups.size === 0) {
+			contentEl.createEl('p', {
+				text: `No scenes found under "${this.plugin.settings.scenesFolder}".`,
+				cls: 'multimuse-dashboard-empty',
+			});
+			return;
+		}
+
+		const roleplays = sortNamesAlphabetically(Array.from(groups.keys()));
+		for (const roleplay of roleplays) {
+			const files = groups.get(roleplay) ?? [];
+			const awaiting = files.filter((file) => this.isAwaitingReply(file)).length;
+			const groupEl = contentEl.createDiv({ cls: 'multimuse-dashboard-group' });
+			groupEl.createEl('h4', { text: awaiting > 0 ? `${roleplay} (${awaiting} your turn)` : roleplay });
+
+			// Your-turn scenes first, then alphabetical.
+			files.sort((a, b) => {
+				const turnDiff = Number(this.isAwaitingReply(b)) - Number(this.isAwaitingReply(a));
+				return turnDiff !== 0 ? turnDiff : a.basename.localeCompare(b.basename, undefined, { sensitivity: 'base' });
+			});
+			for (const file of files) {
+				this.renderSceneRow(groupEl, file);
+			}
+		}
+	}
+
+	private isAwaitingReply(file: TFile): boolean {
+		const frontmatter = this.plugin.getFrontmatter(this.app.metadataCache.getFileCache(file));
+		return !!frontmatter
+			&& this.plugin.isSceneMarkedActive(frontmatter)
+			&& this.plugin.readRepliedState(frontmatter) === false;
+	}
+
+	private renderSceneRow(parentEl: HTMLElement, file: TFile): void {
+		const frontmatter = this.plugin.getFrontmatter(this.app.metadataCache.getFileCache(file)) ?? {};
+		const isActive = this.plugin.isSceneMarkedActive(frontmatter);
+		const replied = this.plugin.readRepliedState(frontmatter);
+		const link = frontmatter[this.plugin.prop('link')];
+
+		const rowEl = parentEl.createDiv({ cls: 'multimuse-dashboard-row' });
+		if (!isActive) rowEl.addClass('is-inactive');
+		if (isActive && replied === false) rowEl.addClass('is-your-turn');
+
+		const mainEl = rowEl.createDiv({ cls: 'multimuse-dashboard-main' });
+		const nameEl = mainEl.createEl('a', { text: file.basename, cls: 'multimuse-dashboard-name' });
+		nameEl.onclick = (evt) => {
+			evt.preventDefault();
+			void this.app.workspace.getLeaf(false).openFile(file);
+		};
+
+		const status = !isActive
+			? 'Inactive'
+			: replied === false
+				? 'Your turn'
+				: replied === true
+					? 'Replied'
+					: 'Unknown';
+		const details = [
+			this.plugin.getCharacterNames(frontmatter).join(', ') || 'No characters',
+			status,
+		];
+		const lastActivity = frontmatterValueToString(frontmatter[this.plugin.prop('lastActivity')]);
+		if (lastActivity) {
+			details.push(`Last activity ${lastActivity.replace('T', ' ')}`);
+		}
+		mainEl.createDiv({ text: details.join(' · '), cls: 'multimuse-dashboard-details' });
+
+		const actionsEl = rowEl.createDiv({ cls: 'multimuse-dashboard-actions' });
+		this.createIconButton(actionsEl, 'file-text', 'Open note', () => {
+			void this.app.workspace.getLeaf(false).openFile(file);
+		});
+		if (typeof link === 'string' && link) {
+			this.createIconButton(actionsEl, 'external-link', 'Open Discord thread', () => {
+				window.open(link);
+			});
+		}
+		this.createIconButton(actionsEl, 'refresh-cw', 'Refresh this scene', () => {
+			void this.plugin.querySceneState(file, { force: true }).then((updated) => {
+				new Notice(updated ? `Updated ${file.basename}` : `${file.basename} is up to date`);
+				this.render();
+			});
+		});
+		this.createIconButton(actionsEl, isActive ? 'pause' : 'play', isActive ? 'Mark inactive' : 'Mark active', () => {
+			void this.plugin.updateFrontmatter(file, { [this.plugin.prop('isActive')]: !isActive });
+		});
+	}
+
+	private createIconButton(parentEl: HTMLElement, icon: string, label: string, onClick: () => void): void {
+		const button = parentEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+		setIcon(button, icon);
+		button.onclick = (evt) => {
+			evt.preventDefault();
+			onClick();
+		};
+	}
+}
+
+/** Batch review for Sync from Tracker: tick threads, edit scene names, and assign folders in one pass. */
+class TrackerSyncModal extends Modal {
+	plugin: MultimuseObsidian;
+	rows: TrackerSyncRow[];
+	folderOptions: string[];
+	onSubmit: (rows: TrackerSyncRow[] | null) => void;
+	private submitted = false;
+	private rowInputs: { checkbox: HTMLInputElement; folder: HTMLInputElement }[] = [];
+	private importButton: HTMLButtonElement | null = null;
+
+	constructor(
+		app: App,
+		plugin: MultimuseObsidian,
+		rows: TrackerSyncRow[],
+		folderOptions: string[],
+		onSubmit: (rows: TrackerSyncRow[] | null) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.rows = rows;
+		this.folderOptions = folderOptions;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.plugin.isolateWizardModal(this);
+		this.modalEl.addClass('multimuse-sync-modal');
+		this.setTitle('Sync from Tracker');
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('p', {
+			text: `${this.rows.length} tracked thread(s) have no scene note. Folders are relative to "${this.plugin.settings.scenesFolder}" (leave blank for the folder itself).`,
+			cls: 'multimuse-scene-location-desc',
+		});
+
+		// Shared datalist so every folder input suggests existing roleplay folders.
+		const datalistId = 'multimuse-sync-folders';
+		const datalist = contentEl.createEl('datalist', { attr: { id: datalistId } });
+		for (const folder of this.folderOptions) {
+			datalist.createEl('option', { attr: { value: folder } });
+		}
+
+		let bulkFolder = '';
+		new Setting(contentEl)
+			.setName('Folder for selected')
+			.setDesc('Assign one folder to every ticked thread.')
+			.addText((text) => {
+				text.setPlaceholder('For the Greeks/Twin Flames')
+					.onChange((value) => {
+						bulkFolder = value;
+					});
+				text.inputEl.setAttr('list', datalistId);
+			})
+			.addButton((btn) => btn
+				.setButtonText('Apply')
+				.onClick(() => {
+					this.rows.forEach((row, index) => {
+						if (!row.selected) return;
+						row.location = bulkFolder;
+						this.rowInputs[index].folder.value = bulkFolder;
+					});
+				}))
+			.addToggle((toggle) => toggle
+				.setTooltip('Select all')
+				.setValue(true)
+				.onChange((value) => {
+					this.rows.forEach((row, index) => {
+						row.selected = value;
+						this.rowInputs[index].checkbox.checked = value;
+					});
+					this.updateImportButton();
+				}));
+
+		const listEl = contentEl.createDiv({ cls: 'multimuse-sync-list' });
+		const headerEl = listEl.createDiv({ cls: 'multimuse-sync-row multimuse-sync-header' });
+		headerEl.createSpan({ text: '' });
+		headerEl.createSpan({ text: 'Scene name' });
+		headerEl.createSpan({ text: 'Folder' });
+		headerEl.createSpan({ text: 'Muses' });
+
+		this.rows.forEach((row) => {
+			const rowEl = listEl.createDiv({ cls: 'multimuse-sync-row' });
+			const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = row.selected;
+			checkbox.onchange = () => {
+				row.selected = checkbox.checked;
+				this.updateImportButton();
+			};
+
+			const nameInput = rowEl.createEl('input', { type: 'text', cls: 'multimuse-input' });
+			nameInput.value = row.sceneName;
+			nameInput.oninput = () => {
+				row.sceneName = nameInput.value;
+			};
+
+			const folderInput = rowEl.createEl('input', { type: 'text', cls: 'multimuse-input' });
+			folderInput.value = row.location;
+			folderInput.placeholder = this.plugin.settings.scenesFolder;
+			folderInput.setAttr('list', datalistId);
+			folderInput.oninput = () => {
+				row.location = folderInput.value;
+			};
+
+			const characters = this.plugin.getTrackedThreadCharacters(row.thread);
+			let musesText = characters.length > 0 ? characters.join(', ') : '—';
+			if (this.plugin.getAccounts().length > 1) {
+				musesText = `${musesText} (${row.account.name})`;
+			}
+			rowEl.createSpan({
+				text: musesText,
+				cls: 'multimuse-sync-muses',
+			});
+
+			this.rowInputs.push({ checkbox, folder: folderInput });
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setCta().onClick(() => {
+					this.submitted = true;
+					this.close();
+				});
+				this.importButton = btn.buttonEl;
+			})
+			.addButton((btn) => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+		this.updateImportButton();
+	}
+
+	private updateImportButton(): void {
+		if (!this.importButton) return;
+		const count = this.rows.filter((row) => row.selected).length;
+		this.importButton.setText(`Import ${count} scene(s)`);
+		this.importButton.disabled = count === 0;
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onSubmit(this.submitted ? this.rows : null);
+	}
+}
+
+/** One choice in a PickerModal. */
+interface PickerOption<T> {
+	label: string;
+	value: T;
+	/** Extra text the search matches (triggers, tags, usernames) without displaying it. */
+	keywords?: string;
+	/** Smaller second line under the label. */
+	detail?: string;
+	avatarUrl?: string | null;
+	/** Listed even when the search does not match (e.g. "+ New folder path…"). */
+	alwaysShow?: boolean;
+}
+
+/** Fuzzy-search picker with keyboard navigation, used for muses, members, accounts and folders. */
+class PickerModal<T> extends FuzzySuggestModal<PickerOption<T>> {
+	options: PickerOption<T>[];
+	onDone: (value: T | null) => void;
+	private chosen = false;
+
+	constructor(app: App, options: PickerOption<T>[], placeholder: string, onDone: (value: T | null) => void) {
+		super(app);
+		this.options = options;
+		this.onDone = onDone;
+		this.modalEl.addClass('multimuse-picker');
+		this.setPlaceholder(placeholder);
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to choose' },
+			{ command: 'esc', purpose: 'to cancel' },
+		]);
+	}
+
+	getItems(): PickerOption<T>[] {
+		return this.options;
+	}
+
+	getItemText(option: PickerOption<T>): string {
+		return option.keywords ? `${option.label} ${option.keywords}` : option.label;
+	}
+
+	getSuggestions(query: string): FuzzyMatch<PickerOption<T>>[] {
+		const results = super.getSuggestions(query);
+		for (const option of this.options) {
+			if (option.alwaysShow && !results.some((result) => result.item === option)) {
+				results.push({ item: option, match: { score: 0, matches: [] } });
+			}
+		}
+		return results;
+	}
+
+	renderSuggestion(result: FuzzyMatch<PickerOption<T>>, el: HTMLElement): void {
+		const option = result.item;
+		el.addClass('multimuse-picker-item');
+		if (option.avatarUrl) {
+			el.createEl('img', { cls: 'multimuse-picker-avatar', attr: { src: option.avatarUrl, alt: '' } });
+		}
+		const textEl = el.createDiv({ cls: 'multimuse-picker-text' });
+		textEl.createDiv({ text: option.label });
+		if (option.detail) {
+			textEl.createDiv({ text: option.detail, cls: 'multimuse-picker-detail' });
+		}
+	}
+
+	onChooseItem(option: PickerOption<T>): void {
+		this.chosen = true;
+		this.onDone(option.value);
+	}
+
+	onClose(): void {
+		super.onClose();
+		// The modal closes before onChooseItem runs, so only report a cancel once that had its chance
+		window.setTimeout(() => {
+			if (!this.chosen) {
+				this.onDone(null);
+			}
+		}, 0);
+	}
+}
+
+/** Final-text preview for Send as Muse: wrappers applied, lengths, predicted split, unresolved mentions. */
+class PostPreviewModal extends Modal {
+	museName: string;
+	ic: string;
+	header: string;
+	footer: string;
+	/** Obsidian syntax left in the post that Discord will show literally (from the formatting step). */
+	formatWarnings: string[];
+	onSubmit: (ic: string | null) => void;
+	private submitted = false;
+	private previewEl: HTMLElement | null = null;
+
+	constructor(
+		app: App,
+		museName: string,
+		ic: string,
+		header: string,
+		footer: string,
+		formatWarnings: string[],
+		onSubmit: (ic: string | null) => void
+	) {
+		super(app);
+		this.museName = museName;
+		this.ic = ic;
+		this.header = header;
+		this.footer = footer;
+		this.formatWarnings = formatWarnings;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.modalEl.addClass('multimuse-preview-modal');
+		this.setTitle(`Send as ${this.museName}`);
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const textarea = contentEl.createEl('textarea', { cls: 'multimuse-outbox-content' });
+		textarea.value = this.ic;
+		textarea.rows = 6;
+		textarea.oninput = () => {
+			this.ic = textarea.value;
+			this.renderPreview();
+		};
+
+		this.previewEl = contentEl.createDiv({ cls: 'multimuse-preview' });
+		this.renderPreview();
+
+		new Setting(contentEl)
+			.addButton((btn) => btn
+				.setButtonText('Send')
+				.setCta()
+				.onClick(() => {
+					if (!this.ic.trim()) {
+						new Notice('Nothing to send.');
+						return;
+					}
+					this.submitted = true;
+					this.close();
+				}))
+			.addButton((btn) => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	private renderPreview(): void {
+		const el = this.previewEl;
+		if (!el) return;
+		el.empty();
+
+		const chunks = splitPostChunks(this.ic, this.header, this.footer);
+		const wrapperNote = this.header || this.footer
+			? `header ${this.header.length} + footer ${this.footer.length} characters`
+			: 'no header/footer';
+		el.createDiv({
+			text: `${this.ic.length} characters (${wrapperNote}) · ${chunks.length} message(s)`,
+			cls: 'multimuse-preview-stats',
+		});
+
+		for (const warning of this.formatWarnings) {
+			el.createDiv({ text: warning, cls: 'multimuse-preview-warning' });
+		}
+
+		const mentions = findUnresolvedMentions(this.ic);
+		if (mentions.length > 0) {
+			el.createDiv({
+				text: `Unresolved mentions: ${mentions.join(', ')}. Use "Insert @ mention" to ping someone.`,
+				cls: 'multimuse-preview-warning',
+			});
+		}
+
+		chunks.forEach((chunk, index) => {
+			const isFirst = index === 0;
+			const isLast = index === chunks.length - 1;
+			const length = composeChunkForSend(chunk, this.header, this.footer, DISCORD_MESSAGE_BUDGET, { isFirst, isLast }).length;
+			const chunkEl = el.createDiv({ cls: 'multimuse-preview-chunk' });
+			if (chunks.length > 1) {
+				chunkEl.createDiv({
+					text: `Message ${index + 1} of ${chunks.length} · ${length}/${DISCORD_MESSAGE_BUDGET}`,
+					cls: 'multimuse-preview-chunk-label',
+				});
+			}
+			if (this.header && isFirst) {
+				chunkEl.createDiv({ text: this.header, cls: 'multimuse-preview-wrapper' });
+			}
+			this.renderWithMentions(chunkEl.createDiv({ cls: 'multimuse-preview-body' }), chunk);
+			if (this.footer && isLast) {
+				chunkEl.createDiv({ text: this.footer, cls: 'multimuse-preview-wrapper' });
+			}
+		});
+	}
+
+	/** Render text with plain "@name" mentions highlighted. */
+	private renderWithMentions(el: HTMLElement, text: string): void {
+		const unresolved = new Set(findUnresolvedMentions(text));
+		if (unresolved.size === 0) {
+			el.setText(text);
+			return;
+		}
+		for (const part of text.split(/(@[\w.]{2,32})/)) {
+			if (unresolved.has(part)) {
+				el.createSpan({ text: part, cls: 'multimuse-preview-mention' });
+			} else if (part) {
+				el.appendText(part);
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onSubmit(this.submitted ? this.ic : null);
+	}
+}
+
+/** Lists queued Send as Muse posts; each can be edited, sent now or cancelled. */
+class OutboxModal extends Modal {
+	plugin: MultimuseObsidian;
+
+	constructor(app: App, plugin: MultimuseObsidian) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		this.modalEl.addClass('multimuse-outbox-modal');
+		this.setTitle('Send as Muse outbox');
+		this.render();
+	}
+
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
 
-		// Extract thread ID from link
-		const threadId = this.extractThreadIdFromUrl(link);
-		if (!threadId) {
-			new Notice('Invalid Discord URL format in Link property.');
+		const entries = this.plugin.settings.outbox;
+		if (entries.length === 0) {
+			contentEl.createEl('p', { text: 'No posts waiting.', cls: 'multimuse-outbox-empty' });
 			return;
 		}
 
-		// Select muse if multiple characters
-		let selectedMuse: string;
-		if (characters.length === 1) {
-			selectedMuse = characters[0];
-		} else {
-			const museIndex = await this.showSuggester(characters, characters);
-			if (museIndex === null || museIndex < 0) {
-				return;
-			}
-			selectedMuse = characters[museIndex];
-		}
+		const formatTime = (ts: number) => new Date(ts).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+		for (const entry of [...entries]) {
+			const entryEl = contentEl.createDiv({ cls: 'multimuse-outbox-entry' });
+			const sceneName = entry.scenePath ? entry.scenePath.split('/').pop()?.replace(/\.md$/, '') : null;
+			entryEl.createDiv({
+				text: (sceneName ? `${entry.museName} → ${sceneName}` : entry.museName)
+					+ (entry.chunk ? ` (message ${entry.chunk.index} of ${entry.chunk.total})` : ''),
+				cls: 'multimuse-outbox-title',
+			});
 
-		new Notice(`Sending as ${selectedMuse}…`);
+			const status = entry.failed
+				? `Rejected: ${entry.lastError ?? 'unknown error'}`
+				: `Retrying at ${formatTime(entry.nextAttemptAt)}${entry.lastError ? ` (last error: ${entry.lastError})` : ''}`;
+			entryEl.createDiv({
+				text: `Queued ${formatTime(entry.createdAt)} · ${entry.attempts} attempt(s) · ${status}`,
+				cls: entry.failed ? 'multimuse-outbox-status is-failed' : 'multimuse-outbox-status',
+			});
 
-		const primaryUserId = this.settings.cachedUserId || await this.getPrimaryUserId();
-		if (!primaryUserId) {
-			new Notice('Failed to get user ID from API key. Please check your API key in settings.');
-			return;
+			const textarea = entryEl.createEl('textarea', { cls: 'multimuse-outbox-content' });
+			textarea.value = entry.postBody.content;
+			textarea.rows = 4;
+			textarea.onchange = () => {
+				void this.plugin.editOutboxEntry(entry, textarea.value);
+			};
+
+			new Setting(entryEl)
+				.addButton((btn) => btn
+					.setButtonText('Send now')
+					.setCta()
+					.onClick(async () => {
+						await this.plugin.editOutboxEntry(entry, textarea.value);
+						entry.failed = false;
+						btn.setDisabled(true);
+						await this.plugin.sendOutboxEntryNow(entry);
+						this.render();
+					}))
+				.addButton((btn) => btn
+					.setButtonText('Cancel post')
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.removeOutboxEntry(entry.id);
+						this.render();
+					}));
 		}
+	}
 
-		const postBody: Record<string, unknown> = {
-			thread_id: threadId,
-			muse_name: selectedMuse,
-			content: selection.trim(),
-			user_id: primaryUserId,
-		};
+	onClose() {
+		this.contentEl.empty();
+	}
+}
 
-		void this.deliverPostAsMuse(selectedMuse, primaryUserId, threadId, postBody, file);
+/** Lists scheduled posts, soonest first; each can be rescheduled, edited, sent now or cancelled. */
+class ScheduledPostsModal extends Modal {
+	plugin: MultimuseObsidian;
+
+	constructor(app: App, plugin: MultimuseObsidian) {
+		super(app);
+		this.plugin = plugin;
 	}
 
-	private async applyMuseWrappersToPost(
-		postBody: Record<string, unknown>,
-		threadId: string,
-		primaryUserId: string,
-		matchedMuse: MuseInfo,
-		selectedMuse: string
-	): Promise<void> {
-		const icRaw = typeof postBody.content === 'string' ? postBody.content : '';
-		const { header, footer } = await this.resolveMuseWrappers(
-			threadId,
-			primaryUserId,
-			matchedMuse,
-			selectedMuse
-		);
-		if ((header || footer) && canPreapplyWrappers(icRaw, header, footer)) {
-			postBody.content = composeChunkForSend(icRaw, header, footer);
-			postBody.wrappers_preapplied = true;
-		}
+	onOpen() {
+		this.modalEl.addClass('multimuse-outbox-modal');
+		this.setTitle('Scheduled posts');
+		this.render();
 	}
 
-	private async deliverPostAsMuse(
-		selectedMuse: string,
-		primaryUserId: string,
-		threadId: string,
-		postBody: Record<string, unknown>,
-		sceneFile?: TFile
-	): Promise<void> {
-		try {
-			await this.yieldPollSlot();
+	render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
 
-			let muses = this.museCache.get(primaryUserId) ?? [];
-			let matchedMuse = this.findMuseMatch(muses, selectedMuse);
-			if (!matchedMuse?.muse_id) {
-				muses = await this.getMusesForUserIds([primaryUserId], { forceRefresh: true });
-				matchedMuse = this.findMuseMatch(muses, selectedMuse);
-			}
-			if (matchedMuse?.muse_id) {
-				postBody.muse_id = matchedMuse.muse_id;
-			}
-			if (matchedMuse) {
-				await this.applyMuseWrappersToPost(
-					postBody,
-					threadId,
-					primaryUserId,
-					matchedMuse,
-					selectedMuse
-				);
+		const posts = [...this.plugin.settings.scheduledPosts].sort((a, b) => a.scheduledAt - b.scheduledAt);
+		if (posts.length === 0) {
+			contentEl.createEl('p', { text: 'No scheduled posts. Select text in a scene and choose "Schedule as Muse…".', cls: 'multimuse-outbox-empty' });
+			return;
+		}
+
+		for (const post of posts) {
+			const entryEl = contentEl.createDiv({ cls: 'multimuse-outbox-entry' });
+			const sceneName = post.scenePath.split('/').pop()?.replace(/\.md$/, '') ?? post.scenePath;
+			entryEl.createDiv({ text: `${post.museName} → ${sceneName}`, cls: 'multimuse-outbox-title' });
+			if (post.scheduledAt <= Date.now()) {
+				entryEl.createDiv({ text: 'Overdue: waiting for you to send or reschedule it.', cls: 'multimuse-outbox-status is-failed' });
 			}
 
-			let response = await this.apiPostJson('/api/v1/messages/post', postBody);
+			new Setting(entryEl)
+				.setName('Send at')
+				.addText((text) => {
+					text.inputEl.type = 'datetime-local';
+					text.setValue(formatDateTimeInput(new Date(post.scheduledAt)));
+					text.inputEl.onchange = async () => {
+						const date = new Date(text.inputEl.value);
+						if (isNaN(date.getTime())) {
+							return;
+						}
+						post.scheduledAt = date.getTime();
+						if (post.scheduledAt > Date.now()) {
+							this.plugin.releaseScheduledPost(post.id);
+						}
+						await this.plugin.saveSettings();
+						this.render();
+					};
+				});
 
-			if (response.status === 403 && !matchedMuse) {
-				muses = await this.getMusesForUserIds([primaryUserId], { forceRefresh: true });
-				matchedMuse = this.findMuseMatch(muses, selectedMuse);
-				if (matchedMuse) {
-					if (matchedMuse.muse_id) {
-						postBody.muse_id = matchedMuse.muse_id;
-					}
-					if (!postBody.wrappers_preapplied) {
-						await this.applyMuseWrappersToPost(
-							postBody,
-							threadId,
-							primaryUserId,
-							matchedMuse,
-							selectedMuse
-						);
-					}
-					response = await this.apiPostJson('/api/v1/messages/post', postBody);
-				} else if (muses.length > 0) {
-					new Notice(`Muse "${selectedMuse}" not found. Available: ${muses.map(m => m.name).join(', ')}`);
-					return;
-				}
-			}
+			const textarea = entryEl.createEl('textarea', { cls: 'multimuse-outbox-content' });
+			textarea.value = post.content;
+			textarea.rows = 4;
+			textarea.onchange = () => {
+				post.content = textarea.value;
+				void this.plugin.saveSettings();
+			};
 
-			if (response.status === 200 || response.status === 202) {
-				new Notice(`Message sent as ${selectedMuse}!`);
-				if (sceneFile) {
-					await this.updateFrontmatter(sceneFile, 'Replied?', true);
-				}
-				void this.syncMuses();
-			} else if (!this.handleApiError(response, 'sendSelectionAsMuse - post message')) {
-				const errorData = parseJson<ApiErrorBody>(response.text);
-				new Notice(`Failed to send message: ${errorData.message || response.status}`);
-			}
-		} catch (error) {
-			console.error('Error sending message:', error);
-			new Notice(`Failed to send message: ${getErrorMessage(error)}`);
+			new Setting(entryEl)
+				.addButton((btn) => btn
+					.setButtonText('Send now')
+					.setCta()
+					.onClick(async () => {
+						post.content = textarea.value;
+						btn.setDisabled(true);
+						await this.plugin.sendScheduledPost(post, { interactive: true });
+						this.render();
+					}))
+				.addButton((btn) => btn
+					.setButtonText('Cancel post')
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.removeScheduledPost(post.id);
+						this.render();
+					}));
 		}
 	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
 }
 
 class MultimuseObsidianSettingTab extends PluginSettingTab {
@@ -2585,6 +6199,69 @@ class MultimuseObsidianSettingTab extends PluginSettingTab {
 					void this.plugin.initializeMultimuseWorkspace();
 				}));
 
+		new Setting(containerEl)
+			.setName('Turn pasted Discord links into scenes')
+			.setDesc('When a Discord thread/channel URL is pasted into an empty note in your scenes folder, offer to make that note a scene.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pasteLinkToScene)
+				.onChange(async (value) => {
+					this.plugin.settings.pasteLinkToScene = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Scene Templates')
+			.setDesc('Template notes for new scenes (Create New Scene and Sync from Tracker). The template\'s body becomes the note body and its properties are added to the scene\'s. Placeholders: {{muse}}, {{roleplay}}, {{thread_name}}, {{link}}, {{date}}, {{time}}, {{title}}, {{participants}}.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Default template')
+			.setDesc('Used when no folder template below matches. Leave blank for an empty note.')
+			.addText(text => text
+				.setPlaceholder('Templates/Scene.md')
+				.setValue(this.plugin.settings.sceneTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.sceneTemplate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.folderTemplates.forEach((entry, index) => {
+			new Setting(containerEl)
+				.setName(entry.folder ? `Folder: ${entry.folder}` : `Folder template ${index + 1}`)
+				.setDesc('Scenes created in this folder (under your scenes folder) or below it use this template.')
+				.addText(text => text
+					.setPlaceholder('Folder (e.g. For The Greeks)')
+					.setValue(entry.folder)
+					.onChange(async (value) => {
+						entry.folder = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Template note path')
+					.setValue(entry.template)
+					.onChange(async (value) => {
+						entry.template = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove folder template')
+					.onClick(async () => {
+						this.plugin.settings.folderTemplates.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add folder template')
+				.onClick(async () => {
+					this.plugin.settings.folderTemplates.push({ folder: '', template: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		// Scene Properties Tracking
 		new Setting(containerEl)
 			.setName('Scene Properties')
@@ -2610,6 +6287,59 @@ class MultimuseObsidianSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Track Server and Channel Properties')
+			.setDesc(`Add the Discord server and channel names ("${this.plugin.prop('server')}" and "${this.plugin.prop('channel')}") to new scene files`)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trackServerChannel)
+				.onChange(async (value) => {
+					this.plugin.settings.trackServerChannel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Turn Property')
+			.setDesc('Replied? is true once you have replied; My Turn? is its inverse (true when it is your turn to post). Polling, Send as Muse, new scenes and the generated Base use this choice.')
+			.addDropdown(dropdown => dropdown
+				.addOption('replied', 'Replied?')
+				.addOption('myTurn', 'My Turn?')
+				.addOption('both', 'Both')
+				.setValue(this.plugin.settings.turnProperty)
+				.onChange(async (value) => {
+					this.plugin.settings.turnProperty = value as TurnPropertyMode;
+					await this.plugin.saveSettings();
+					this.display(); // The How It Works section names the turn properties
+				}));
+
+		const activityToggles: { key: 'trackLastActivity' | 'trackMyLastPost' | 'trackPostsSinceMine'; name: string; desc: string }[] = [
+			{
+				key: 'trackLastActivity',
+				name: 'Track Last Activity Property',
+				desc: 'Write the time of the latest post in the thread, so Bases can sort scenes by staleness',
+			},
+			{
+				key: 'trackMyLastPost',
+				name: 'Track My Last Post Property',
+				desc: 'Write the time of your latest post in the thread',
+			},
+			{
+				key: 'trackPostsSinceMine',
+				name: 'Track Posts Since Mine Property',
+				desc: 'Write how many posts others have made since your latest one',
+			},
+		];
+		for (const toggleInfo of activityToggles) {
+			new Setting(containerEl)
+				.setName(toggleInfo.name)
+				.setDesc(toggleInfo.desc)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings[toggleInfo.key])
+					.onChange(async (value) => {
+						this.plugin.settings[toggleInfo.key] = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		new Setting(containerEl)
 			.setName('Obsidian as source of truth')
 			.setDesc('When enabled, edits to Characters and Participants in scene frontmatter are pushed to MultiMuse using the thread id from Link. Use this when you adjust muses or participant counts in Obsidian instead of Discord.')
@@ -2621,51 +6351,325 @@ class MultimuseObsidianSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		// Bot API URL - Hidden from user for security (uses hardcoded default)
-		// Removed from settings UI to prevent exposing server IP address
+		new Setting(containerEl)
+			.setName('Send as Muse')
+			.setHeading();
 
-		// API Key (required for authentication)
 		new Setting(containerEl)
-			.setName('API Key')
-			.setDesc('Your Multimuse API key for authentication. Generate one using /api generate in Discord DMs with the bot. Your user ID will be automatically detected from the API key.')
-			.addText(text => {
-				text.setPlaceholder('mm_...')
-					.setValue(this.plugin.settings.apiKey || '')
-					.inputEl.type = 'password';
-				text.onChange(async (value) => {
-					this.plugin.settings.apiKey = value.trim();
-					// Clear cached user ID when API key changes
-					this.plugin.settings.cachedUserId = '';
+			.setName('Preview before sending')
+			.setDesc('Show the final message with header/footer applied, its length and how a long post will be split, and allow edits before posting. Turn off to post immediately.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewBeforeSend)
+				.onChange(async (value) => {
+					this.plugin.settings.previewBeforeSend = value;
 					await this.plugin.saveSettings();
-					
-					// Auto-fetch user ID from API key
-					if (value.trim()) {
-						const userId = await this.plugin.getUserIdFromApiKey();
-						if (userId) {
-							new Notice(`User ID detected: ${userId}`);
-							await this.plugin.syncMuses();
-							if (this.plugin.settings.enabled) {
-								this.plugin.stopPolling();
-								this.plugin.startPolling();
-							}
-						} else {
-							new Notice('Failed to get user ID from API key. Please check your API key.');
-						}
+				}));
+
+		new Setting(containerEl)
+			.setName('Split long posts in Obsidian')
+			.setDesc(`Split posts longer than ${DISCORD_MESSAGE_BUDGET} characters here instead of on the bot, at paragraph or sentence breaks and never inside formatting or mentions. The header goes on the first message and the footer on the last; messages are sent in order with progress, and anything unsent goes to the outbox.`)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.clientChunking)
+				.onChange(async (value) => {
+					this.plugin.settings.clientChunking = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reply draft area')
+			.setDesc('What "Send reply draft as Muse" sends from the current note.')
+			.addDropdown(dropdown => dropdown
+				.addOption('marker', 'Everything below the reply marker')
+				.addOption('lastCallout', 'The last callout')
+				.setValue(this.plugin.settings.draftArea)
+				.onChange(async (value) => {
+					this.plugin.settings.draftArea = value as DraftAreaMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reply marker')
+			.setDesc('Line that starts the reply draft. A comment such as %%reply%% is hidden in reading view.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.draftMarker)
+				.setValue(this.plugin.settings.draftMarker)
+				.onChange(async (value) => {
+					this.plugin.settings.draftMarker = value.trim() || DEFAULT_SETTINGS.draftMarker;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('After sending')
+			.setDesc('What happens to the sent text in the note once the post succeeds. Text sent from below the reply marker is moved above it.')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Leave it unchanged')
+				.addOption('callout', 'Wrap in a callout stamped with muse and time')
+				.addOption('sentSection', `Move it under "${SENT_SECTION_HEADING.replace(/^#+\s*/, '')}" at the end of the note`)
+				.addOption('strike', 'Strike it through')
+				.setValue(this.plugin.settings.sentTextAction)
+				.onChange(async (value) => {
+					this.plugin.settings.sentTextAction = value as SentTextAction;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link to sent message')
+			.setDesc('Add a link to the posted Discord message next to the sent text (when the bot reports the message id).')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.sentTextLink)
+				.onChange(async (value) => {
+					this.plugin.settings.sentTextLink = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Discord formatting')
+			.setDesc('Obsidian-only syntax rewritten before posting. Anything left that Discord cannot render is listed in the preview.')
+			.setHeading();
+
+		const formatRules: Record<keyof DiscordFormatRules, [string, string]> = {
+			stripComments: ['Remove comments', 'Drop %%comments%%.'],
+			resolveWikilinks: ['Resolve wikilinks', 'Post [[Note|alias]] as its display text.'],
+			stripEmbeds: ['Remove embeds', 'Drop ![[embeds]]; Discord cannot show vault files.'],
+			convertHighlights: ['Convert highlights', 'Post ==highlights== as bold.'],
+			convertCallouts: ['Convert callouts', 'Post "> [!note] Title" as a quote with a bold title.'],
+			stripFootnotes: ['Remove footnotes', 'Drop [^1] references and their definitions.'],
+			stripTags: ['Remove tags', 'Drop #tags from the post.'],
+		};
+		for (const key of Object.keys(formatRules) as (keyof DiscordFormatRules)[]) {
+			new Setting(containerEl)
+				.setName(formatRules[key][0])
+				.setDesc(formatRules[key][1])
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.discordFormatting[key])
+					.onChange(async (value) => {
+						this.plugin.settings.discordFormatting[key] = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Thread log')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Write thread log to')
+			.setDesc(`Where "Pull thread log" adds messages imported from the scene's Discord thread. Only messages newer than ${this.plugin.prop('logCursor')} are added.`)
+			.addDropdown(dropdown => dropdown
+				.addOption('note', `The scene note, under "${THREAD_LOG_HEADING.replace(/^#+\s*/, '')}"`)
+				.addOption('sibling', 'A separate "<scene> Log" note in the log notes folder')
+				.setValue(this.plugin.settings.threadLogTarget)
+				.onChange(async (value) => {
+					this.plugin.settings.threadLogTarget = value as ThreadLogTarget;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Log notes folder')
+			.setDesc('Where separate log notes go, in the same subfolders as their scenes. Must be outside the scenes folder, so log notes are not treated as scenes.')
+			.addText(text => text
+				.setPlaceholder('RP Logs')
+				.setValue(this.plugin.settings.threadLogFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.threadLogFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Pull when it is your turn')
+			.setDesc('Pull the thread log automatically when polling sees that someone replied, so the new posts are in the note when you write yours.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoPullThreadLog)
+				.onChange(async (value) => {
+					this.plugin.settings.autoPullThreadLog = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Notifications')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Your-turn alerts')
+			.setDesc(`Show a notice naming the scene and roleplay when a thread flips to your turn. Add "${this.plugin.prop('muteAlerts')}: true" to a scene's frontmatter to silence it.`)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.turnAlerts)
+				.onChange(async (value) => {
+					this.plugin.settings.turnAlerts = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Desktop notifications')
+			.setDesc('Also raise an operating system notification (asks for permission the first time).')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.turnAlertsDesktop)
+				.onChange(async (value) => {
+					this.plugin.settings.turnAlertsDesktop = value;
+					await this.plugin.saveSettings();
+					if (value && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+						void Notification.requestPermission();
 					}
-				});
-			});
+				}));
+
+		new Setting(containerEl)
+			.setName('Digest mode')
+			.setDesc('Bundle all scenes that became your turn during one poll into a single message.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.turnAlertsDigest)
+				.onChange(async (value) => {
+					this.plugin.settings.turnAlertsDigest = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Quiet hours')
+			.setDesc('Hold alerts between these local times (HH:MM) and deliver them after the first poll once quiet hours end.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.quietHoursEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.quietHoursEnabled = value;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('23:00')
+				.setValue(this.plugin.settings.quietHoursStart)
+				.onChange(async (value) => {
+					this.plugin.settings.quietHoursStart = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('08:00')
+				.setValue(this.plugin.settings.quietHoursEnd)
+				.onChange(async (value) => {
+					this.plugin.settings.quietHoursEnd = value.trim();
+					await this.plugin.saveSettings();
+				}));
 
-		// Show cached user ID (read-only, for information)
-		if (this.plugin.settings.cachedUserId) {
+		new Setting(containerEl)
+			.setName('Property Names')
+			.setDesc('Frontmatter property names the plugin reads and writes. Change these if your vault uses its own naming (e.g. discord_link, muses, replied). Regenerate your Base after changing them.')
+			.setHeading();
+
+		const propertyLabels: Record<ScenePropertyKey, string> = {
+			link: 'Discord link',
+			characters: 'Characters',
+			replied: 'Replied',
+			participants: 'Participants',
+			isActive: 'Is active',
+			myTurn: 'My turn',
+			lastActivity: 'Last activity',
+			myLastPost: 'My last post',
+			postsSinceMine: 'Posts since mine',
+			muteAlerts: 'Mute alerts',
+			account: 'Account',
+			logCursor: 'Last pulled message',
+			museId: 'Muse ID',
+			server: 'Server',
+			channel: 'Channel',
+		};
+		for (const key of Object.keys(propertyLabels) as ScenePropertyKey[]) {
 			new Setting(containerEl)
-				.setName('Detected User ID')
-				.setDesc(`Your Discord user ID (automatically detected from API key): ${this.plugin.settings.cachedUserId}`)
-				.addText(text => {
-					text.setValue(this.plugin.settings.cachedUserId);
-					text.inputEl.disabled = true;
-				});
+				.setName(propertyLabels[key])
+				.addText(text => text
+					.setPlaceholder(DEFAULT_PROPERTY_NAMES[key])
+					.setValue(this.plugin.settings.propertyNames[key])
+					.onChange(async (value) => {
+						this.plugin.settings.propertyNames[key] = value.trim();
+						await this.plugin.saveSettings();
+					}));
 		}
 
+		new Setting(containerEl)
+			.setName('Rename existing properties')
+			.setDesc('One-time migration: rename default-named properties (Link, Characters, Replied?, …) in every note under the scenes folder to the names above.')
+			.addButton(button => button
+				.setButtonText('Rename')
+				.onClick(() => {
+					void this.plugin.migratePropertyNames();
+				}));
+
+		// Bot API URL - Hidden from user for security (uses hardcoded default)
+		// Removed from settings UI to prevent exposing server IP address
+
+		// Accounts (API key per Discord account; user IDs are detected from the key)
+		new Setting(containerEl)
+			.setName('Accounts')
+			.setDesc('One entry per Discord account. Generate a key using /api generate in Discord DMs with the bot. Scenes use the account whose folder contains them, or the one named in their Account property, falling back to the first account.')
+			.setHeading();
+
+		this.plugin.settings.accounts.forEach((account, index) => {
+			new Setting(containerEl)
+				.setName(account.name || `Account ${index + 1}`)
+				.setDesc(account.cachedUserId
+					? `Detected user ID: ${account.cachedUserId}`
+					: 'User ID will be detected from the API key.')
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(account.name)
+					.onChange(async (value) => {
+						account.name = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => {
+					text.setPlaceholder('mm_...')
+						.setValue(account.apiKey)
+						.inputEl.type = 'password';
+					text.onChange(async (value) => {
+						account.apiKey = value.trim();
+						// Clear cached user ID when API key changes
+						account.cachedUserId = '';
+						await this.plugin.saveSettings();
+
+						// Auto-fetch user ID from API key
+						if (value.trim()) {
+							const userId = await this.plugin.getUserIdFromApiKey(account);
+							if (userId) {
+								new Notice(`User ID detected for ${account.name}: ${userId}`);
+								await this.plugin.syncMuses();
+								if (this.plugin.settings.enabled) {
+									this.plugin.stopPolling();
+									this.plugin.startPolling();
+								}
+							} else {
+								new Notice('Failed to get user ID from API key. Please check your API key.');
+							}
+						}
+					});
+				})
+				.addText(text => text
+					.setPlaceholder('Folder (optional)')
+					.setValue(account.folder)
+					.onChange(async (value) => {
+						account.folder = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove account')
+					.onClick(async () => {
+						this.plugin.settings.accounts.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add account')
+				.onClick(async () => {
+					const count = this.plugin.settings.accounts.length;
+					this.plugin.settings.accounts.push({
+						id: `account-${Date.now().toString(36)}`,
+						name: count === 0 ? 'Main' : `Account ${count + 1}`,
+						apiKey: '',
+						cachedUserId: '',
+						folder: '',
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		// Sync Muses button
 		new Setting(containerEl)
 			.setName('Sync Muses')
@@ -2696,9 +6700,14 @@ class MultimuseObsidianSettingTab extends PluginSettingTab {
 		new Setting(infoEl)
 			.setName('How It Works')
 			.setHeading();
-		infoEl.createEl('p', { text: 'This plugin queries the Multimuse API to check if your scene files match tracked threads and updates the "Replied?" field.' });
+		const turnKeys = this.plugin.getTurnPropertyKeys();
+		const turnNames = turnKeys.map((key) => `"${this.plugin.prop(key)}"`).join(' and ');
+		const turnMeanings = turnKeys.map((key) => key === 'myTurn'
+			? `${this.plugin.prop(key)} true = your turn`
+			: `${this.plugin.prop(key)} true = you replied`).join('; ');
+		infoEl.createEl('p', { text: `This plugin queries the Multimuse API to check if your scene files match tracked threads and updates the ${turnNames} ${turnKeys.length > 1 ? 'fields' : 'field'}.` });
 		infoEl.createEl('p', { text: '• Scenes are matched by Link (thread id) and Characters properties' });
-		infoEl.createEl('p', { text: '• Use **Check Discord Threads Now** (or polling) to refresh Replied? — true = you replied, false = your turn' });
+		infoEl.createEl('p', { text: `• Use **Check Discord Threads Now** (or polling) to refresh ${turnNames} — ${turnMeanings}` });
 		infoEl.createEl('p', { text: '• Enable **Obsidian as source of truth** to push Characters and Participants changes from frontmatter to the tracker' });
 		infoEl.createEl('p', { text: '• Make sure your scene files have a "Link" field (Discord thread URL) and "Characters" field (array) in frontmatter' });
 		infoEl.createEl('p', { text: '• Uses Multimuse API - requires an API key for authentication' });
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { ApiClientOptions, ApiError, MultimuseApiClient, parseRetryAfter } from '../api';
+
+type FakeReply = { status: number; text?: string; headers?: Record<string, string> };
+
+/** A client whose transport answers from a script of replies and records every request it sees. */
+function fakeClient(replies: FakeReply[], options: Partial<ApiClientOptions> = {}) {
+	const calls: RequestUrlParam[] = [];
+	const client = new MultimuseApiClient({
+		baseUrl: 'https://bot.example/',
+		apiKey: 'key',
+		...options,
+		transport: async (request) => {
+			calls.push(request);
+			const reply = replies[Math.min(calls.length, replies.length) - 1];
+			const text = reply.text ?? '{}';
+			return {
+				status: reply.status,
+				headers: reply.headers ?? {},
+				text,
+				json: text ? JSON.parse(text) : null,
+				arrayBuffer: new ArrayBuffer(0),
+			} as RequestUrlResponse;
+		},
+	});
+	return { client, calls };
+}
+
+// Retry-After: 0 keeps retried requests from waiting on real backoff timers.
+const rateLimited: FakeReply = { status: 429, headers: { 'Retry-After': '0' } };
+const unavailable: FakeReply = { status: 503, headers: { 'Retry-After': '0' } };
+const post = { thread_id: '1', user_id: '2', muse_name: 'Ash', content: 'Hello' };
+
+test('parseRetryAfter reads delta seconds and HTTP dates', () => {
+	const now = Date.parse('2024-01-01T00:00:00Z');
+	assert.strictEqual(parseRetryAfter('5', now), 5000);
+	assert.strictEqual(parseRetryAfter(' 1.5 ', now), 1500);
+	assert.strictEqual(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now), 30000);
+	assert.strictEqual(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now), 0);
+	assert.strictEqual(parseRetryAfter('soon', now), null);
+	assert.strictEqual(parseRetryAfter(undefined, now), null);
+});
+
+test('a Retry-After longer than 60s fails fast instead of waiting', async () => {
+	const { client, calls } = fakeClient([{ status: 429, headers: { 'retry-after': '61' } }]);
+	await assert.rejects(client.getMe(), (e: unknown) => e instanceof ApiError && e.retryAfterMs === 61000);
+	assert.strictEqual(calls.length, 1);
+});
+
+test('idempotent requests are retried on 5xx', async () => {
+	const { client, calls } = fakeClient([unavailable, unavailable, { status: 200, text: '{"user_id":7}' }]);
+	assert.deepStrictEqual(await client.getMe(), { user_id: 7 });
+	assert.strictEqual(calls.length, 3);
+});
+
+test('idempotent requests give up after maxRetries', async () => {
+	const { client, calls } = fakeClient([unavailable], { maxRetries: 2 });
+	await assert.rejects(client.getMe(), (e: unknown) => e instanceof ApiError && e.status === 503);
+	assert.strictEqual(calls.length, 3);
+});
+
+test('posts are not retried on 5xx', async () => {
+	const { client, calls } = fakeClient([unavailable, { status: 200 }]);
+	await assert.rejects(client.postMessage(post), (e: unknown) => e instanceof ApiError && e.status === 503);
+	assert.strictEqual(calls.length, 1);
+});
+
+test('posts are not retried on network failures', async () => {
+	const calls: RequestUrlParam[] = [];
+	const client = new MultimuseApiClient({
+		baseUrl: 'https://bot.example',
+		apiKey: 'key',
+		transport: async (request) => {
+			calls.push(request);
+			throw new Error('socket hang up');
+		},
+	});
+	await assert.rejects(client.postMessage(post), (e: unknown) => e instanceof ApiError && e.kind === 'network');
+	assert.strictEqual(calls.length, 1);
+});
+
+test('posts are retried on 429', async () => {
+	const { client, calls } = fakeClient([rateLimited, { status: 200, text: '{"message_id":42}' }]);
+	assert.deepStrictEqual(await client.postMessage(post), { status: 200, messageId: '42' });
+	assert.strictEqual(calls.length, 2);
+});
+
+test('postMessage sends the idempotency key in the body and the header', async () => {
+	const { client, calls } = fakeClient([rateLimited, { status: 200 }]);
+	await client.postMessage(post, { idempotencyKey: 'abc-123' });
+	assert.strictEqual(calls.length, 2);
+	for (const call of calls) {
+		assert.strictEqual(call.method, 'POST');
+		assert.strictEqual(call.url, 'https://bot.example/api/v1/messages/post');
+		assert.strictEqual(call.headers?.['Idempotency-Key'], 'abc-123');
+		assert.strictEqual(call.headers?.['Authorization'], 'Bearer key');
+		const body = JSON.parse(String(call.body));
+		assert.strictEqual(body.idempotency_key, 'abc-123');
+		assert.strictEqual(body.fast, true);
+		assert.strictEqual(body.content, 'Hello');
+	}
+});
+
+test('postMessage without a key sends neither the body field nor the header', async () => {
+	const { client, calls } = fakeClient([{ status: 200 }]);
+	await client.postMessage(post);
+	assert.strictEqual(calls[0].headers?.['Idempotency-Key'], undefined);
+	assert.strictEqual('idempotency_key' in JSON.parse(String(calls[0].body)), false);
+});
+
+test('poll-queue clients (maxRetries: 0) make exactly one attempt', async () => {
+	for (const reply of [rateLimited, unavailable]) {
+		const { client, calls } = fakeClient([reply, { status: 200 }], { maxRetries: 0 });
+		await assert.rejects(client.getMe(), (e: unknown) => e instanceof ApiError && e.status === reply.status);
+		assert.strictEqual(calls.length, 1);
+	}
+});
@@ -0,0 +1,6 @@
+// Runtime stand-in for the `obsidian` module, which ships only type declarations.
+// Tests hand the API client a fake transport, so nothing here should ever be called.
+
+export function requestUrl(): never {
+	throw new Error('requestUrl is not available in tests; pass a transport to the client');
+}
@@ -0,0 +1,34 @@
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// Bundle each *.test.ts against a stub `obsidian` module, then run the bundles once with node's test runner.
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const entryPoints = readdirSync(testDir)
+	.filter((name) => name.endsWith(".test.ts"))
+	.map((name) => path.join(testDir, name));
+const outdir = mkdtempSync(path.join(tmpdir(), "multimuse-tests-"));
+
+try {
+	await esbuild.build({
+		bundle: true,
+		entryPoints,
+		outdir,
+		outExtension: { ".js": ".cjs" },
+		alias: { obsidian: path.join(testDir, "obsidian.ts") },
+		// api.ts schedules timers through `window`, which Node does not define.
+		banner: { js: "globalThis.window = globalThis;" },
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		logLevel: "warning",
+	});
+	const files = readdirSync(outdir).map((name) => path.join(outdir, name));
+	const result = spawnSync(process.execPath, ["--test", ...files], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}